@@ -0,0 +1,39 @@
+import { z } from 'zod'
+import { getInfluxConnectionNames, INFLUX_DEFAULT_CONNECTION } from './influx/connection'
+
+// Every role has the permissions of the previous roles
+export type Role = 'viewer' | 'alert-manager' | 'writer' | 'admin'
+
+export const ROLES: Role[] = ['viewer', 'alert-manager', 'writer', 'admin']
+
+export const RoleValidator: z.ZodType<Role> = z.union([
+  z.literal('viewer'),
+  z.literal('alert-manager'),
+  z.literal('writer'),
+  z.literal('admin')
+])
+
+export type UserAccess = {
+  readonly role: Role
+  readonly buckets?: string[] // Allowed buckets as "<conn>/<bucket>" or "<bucket>" (default connection), undefined allows all
+}
+
+export const hasRole = (access: UserAccess | null, required: Role): boolean => (
+  !!access && ROLES.indexOf(access.role) >= ROLES.indexOf(required)
+)
+
+// Admins can always access every bucket
+export const hasBucketAccess = (access: UserAccess | null, bucket: string, conn?: string): boolean => (
+  !!access && (
+    access.role === 'admin' ||
+    !access.buckets ||
+    access.buckets.some(b => toQualifiedBucket(b) === `${conn ?? INFLUX_DEFAULT_CONNECTION}/${bucket}`)
+  )
+)
+
+// Example: "greenhouse" -> "default/greenhouse", "prod/greenhouse" -> "prod/greenhouse"
+// InfluxQL buckets have slashes as well ("<database>/<retention policy>"), so only known connections are prefixes
+const toQualifiedBucket = (bucket: string): string => {
+  const conn = bucket.slice(0, bucket.indexOf('/'))
+  return getInfluxConnectionNames().includes(conn) ? bucket : `${INFLUX_DEFAULT_CONNECTION}/${bucket}`
+}
@@ -1,90 +1,512 @@
-import { Chart, ChartConfiguration, ChartDataset, ScatterDataPoint } from 'chart.js'
+import { ArcElement, Chart, ChartConfiguration, ChartDataset, Plugin, Scale, ScatterDataPoint } from 'chart.js'
 import { ChartJSNodeCanvas } from 'chartjs-node-canvas'
 import AutoColors from 'chartjs-plugin-autocolors'
 import { format, parseISO } from 'date-fns'
 import { formatInTimeZone } from 'date-fns-tz'
 import { z } from 'zod'
-import { InfluxRow } from './influx/model'
-import { InfluxTableMap } from './util'
+import { InfluxDurationValidator, InfluxRow } from './influx/model'
+import { InfluxTableMap, toArrayOrUndefined, TZ } from './util'
 
 Chart.register(AutoColors)
-const TZ = process.env.TZ || Intl.DateTimeFormat().resolvedOptions().timeZone
 const X_DATE_FORMAT = 'd.M. H:mm'
+const THRESHOLD_COLOR = 'rgb(255, 99, 132)'
+const ANNOTATION_COLOR = 'rgb(153, 102, 255)'
+const ANNOTATION_MAX_LENGTH = 24
+const HEATMAP_DAY_FORMAT = 'EEE d.M.'
+const HEATMAP_LOW_COLOR = [54, 162, 235]
+const HEATMAP_HIGH_COLOR = [255, 99, 132]
+const GAUGE_COLOR = 'rgb(75, 192, 192)'
+const GAUGE_BACKGROUND_COLOR = 'rgb(230, 230, 230)'
+const DEFAULT_GAUGE_MIN = 0
+const DEFAULT_GAUGE_MAX = 100
+const DEFAULT_GAUGE_DECIMALS = 2
+const DEFAULT_HISTOGRAM_BINS = 20
+const CURRENT_PERIOD_LABEL = 'current'
 
 const chartNodeCanvas = new ChartJSNodeCanvas({
   width: Number(process.env.CHART_WIDTH) || 1400,
   height: Number(process.env.CHART_HEIGHT) || 1000
 })
 
-export type ChartType = 'line' | 'bar'
+export type ChartType = 'line' | 'bar' | 'scatter' | 'area' | 'stacked-bar' | 'histogram' | 'heatmap' | 'gauge'
 export type ChartConfig = {
-  readonly min?: number
-  readonly max?: number
+  readonly min?: number // Color scale minimum for heatmaps, gauge minimum for gauges
+  readonly max?: number // Color scale maximum for heatmaps, gauge maximum for gauges
   readonly color?: number
   readonly seconds?: boolean
+  readonly thresholds?: number[] // Horizontal lines
+  readonly y2?: string[] // Fields ('field' or 'measurement:field') on the secondary y-axis
+  readonly radius?: number // Scatter point radius
+  readonly bins?: number // Histogram bin count
+  readonly decimals?: number // Gauge value decimals
+  readonly compare?: string // Previous period as duration, example: '1d' or '7d'
+  readonly annotations?: ChartAnnotationSource
 }
 
-export const ChartConfigValidator: z.ZodType<ChartConfig> = z.object({
+export type ChartAnnotationSource = {
+  readonly bucket: string
+  readonly measurement: string
+}
+
+// Time charts can be overlaid with values from other queries
+export type ChartOverlays = {
+  readonly compared?: InfluxTableMap // Values of the previous period shifted to the current period (see "compare")
+  readonly annotations?: InfluxRow[] // Events drawn as vertical lines
+}
+
+// Example: 'my-bucket/events'
+export const ChartAnnotationSourceValidator: z.ZodType<ChartAnnotationSource, z.ZodTypeDef, string> = z
+  .string()
+  .regex(/^[^/]+\/.+$/, 'Expected "<bucket>/<measurement>"')
+  .transform(str => {
+    const i = str.indexOf('/')
+    return { bucket: str.slice(0, i), measurement: str.slice(i + 1) }
+  })
+
+export const CHART_TYPES: ChartType[] = ['line', 'bar', 'scatter', 'area', 'stacked-bar', 'histogram', 'heatmap', 'gauge']
+
+// Charts with time on the x-axis, only these support the overlays
+export const isTimeChart = (type: ChartType): boolean => !['histogram', 'heatmap', 'gauge'].includes(type)
+
+export const ChartTypeValidator: z.ZodType<ChartType> = z.union([
+  z.literal('line'),
+  z.literal('bar'),
+  z.literal('scatter'),
+  z.literal('area'),
+  z.literal('stacked-bar'),
+  z.literal('histogram'),
+  z.literal('heatmap'),
+  z.literal('gauge')
+])
+
+export const ChartConfigValidator: z.ZodType<ChartConfig, z.ZodTypeDef, unknown> = z.object({
   min: z.coerce.number().optional(),
   max: z.coerce.number().optional(),
   color: z.coerce.number().max(9999).optional(),
-  seconds: z.coerce.boolean().optional()
+  seconds: z.coerce.boolean().optional(),
+  thresholds: z.preprocess(toArrayOrUndefined, z.coerce.number().array().optional()),
+  y2: z.preprocess(toArrayOrUndefined, z.string().array().optional()),
+  radius: z.coerce.number().min(1).max(20).optional(),
+  bins: z.coerce.number().int().min(1).max(100).optional(),
+  decimals: z.coerce.number().int().min(0).max(10).optional(),
+  compare: InfluxDurationValidator.optional(),
+  annotations: ChartAnnotationSourceValidator.optional()
 })
 
+type HeatmapCell = {
+  readonly x: number // Hour of the day
+  readonly y: number // Index of the day
+  readonly value: number
+}
+
 const toXy = (row: InfluxRow): ScatterDataPoint => ({
   x: row._time as unknown as number, // X-axis values can also be strings!
   y: row._value
 })
 
-export const createChart = async (type: ChartType, tables: InfluxTableMap, config: ChartConfig): Promise<Buffer | null> => {
-  if (tables.size === 0) {
-    return null
+const toTimestampXy = (row: InfluxRow): ScatterDataPoint => ({
+  x: parseISO(row._time).getTime(),
+  y: row._value
+})
+
+const isSecondaryAxis = (rows: InfluxRow[], y2: string[]): boolean => {
+  const row = rows.at(0)
+  return !!row && (y2.includes(row._field) || y2.includes(`${row._measurement}:${row._field}`))
+}
+
+const createThresholdPlugin = (thresholds: number[]): Plugin => ({
+  id: 'thresholds',
+  afterDatasetsDraw(chart) {
+    const { ctx, chartArea, scales } = chart
+    ctx.save()
+    ctx.strokeStyle = THRESHOLD_COLOR
+    ctx.fillStyle = THRESHOLD_COLOR
+    ctx.lineWidth = 2
+    ctx.setLineDash([10, 5])
+    ctx.font = '16px sans-serif'
+    ctx.textAlign = 'right'
+    thresholds.forEach(t => {
+      const y = scales.y.getPixelForValue(t)
+      ctx.beginPath()
+      ctx.moveTo(chartArea.left, y)
+      ctx.lineTo(chartArea.right, y)
+      ctx.stroke()
+      ctx.fillText(`${t}`, chartArea.right - 4, y - 4)
+    })
+
+    ctx.restore()
   }
+})
+
+const createAnnotationPlugin = (annotations: InfluxRow[], linear: boolean): Plugin => ({
+  id: 'annotations',
+  afterDatasetsDraw(chart) {
+    const { ctx, chartArea, scales } = chart
+    const labels = linear ? [] : scales.x.getLabels().map(l => parseISO(`${l}`).getTime())
 
-  const { min, max, color } = config
-  const datasets: ChartDataset<typeof type, ScatterDataPoint[]>[] = [...tables.entries()]
-    .sort((a, b) => {
-      // Sort based on the first row's timestamp
-      const aRow = a[1].at(0)
-      const bRow = b[1].at(0)
-      if (!aRow || !bRow) {
-        throw new Error('Invalid InfluxDB table rows, could not sort.')
+    ctx.save()
+    ctx.strokeStyle = ANNOTATION_COLOR
+    ctx.fillStyle = ANNOTATION_COLOR
+    ctx.lineWidth = 2
+    ctx.setLineDash([4, 4])
+    ctx.font = '14px sans-serif'
+    ctx.textAlign = 'left'
+    annotations.forEach(a => {
+      const time = parseISO(a._time).getTime()
+      const x = linear ? scales.x.getPixelForValue(time) : getCategoryPixel(scales.x, labels, time)
+      if (x === null || x < chartArea.left || x > chartArea.right) {
+        return
       }
 
-      return aRow._time.localeCompare(bRow._time)
+      ctx.beginPath()
+      ctx.moveTo(x, chartArea.top)
+      ctx.lineTo(x, chartArea.bottom)
+      ctx.stroke()
+
+      // Label is drawn vertically next to the line
+      ctx.save()
+      ctx.translate(x + 4, chartArea.top + 4)
+      ctx.rotate(Math.PI / 2)
+      ctx.fillText(toAnnotationLabel(a), 0, 0)
+      ctx.restore()
     })
-    .map(([table, rows]) => ({
-      label: `${table} - ${rows.at(0)?._field ?? 'Unknown'}`,
-      data: rows.map(toXy)
-    }))
+
+    ctx.restore()
+  }
+})
+
+// Category x-axis has a tick per timestamp, so the position is interpolated between the neighbouring ticks
+const getCategoryPixel = (scale: Scale, labels: number[], time: number): number | null => {
+  const i = labels.findIndex((l, j) => l <= time && time <= (labels.at(j + 1) ?? l))
+  if (i === -1) {
+    return null
+  }
+
+  const next = labels.at(i + 1) ?? labels[i]
+  const ratio = next > labels[i] ? (time - labels[i]) / (next - labels[i]) : 0
+  const start = scale.getPixelForValue(i)
+  return start + (scale.getPixelForValue(Math.min(i + 1, labels.length - 1)) - start) * ratio
+}
+
+// String values are used as such, others are shown with the field name
+const toAnnotationLabel = (row: InfluxRow): string => {
+  const label = typeof row._value === 'string' ? row._value : `${row._field}=${row._value}`
+  return label.length > ANNOTATION_MAX_LENGTH ? `${label.slice(0, ANNOTATION_MAX_LENGTH - 1)}…` : label
+}
+
+export const createChart = async (
+  type: ChartType,
+  tables: InfluxTableMap,
+  config: ChartConfig,
+  overlays: ChartOverlays = {}
+): Promise<Buffer | null> => {
+  if (tables.size === 0) {
+    return null
+  }
+
+  const chartjs = createChartConfiguration(type, tables, config, overlays)
+  chartjs.options = {
+    ...chartjs.options,
+    plugins: {
+      ...chartjs.options?.plugins,
+      autocolors: { offset: config.color ?? 3 } // Nicer to eyes :)
+    }
+  }
+
+  return await chartNodeCanvas.renderToBuffer(chartjs)
+}
+
+const createChartConfiguration = (
+  type: ChartType,
+  tables: InfluxTableMap,
+  config: ChartConfig,
+  overlays: ChartOverlays
+): ChartConfiguration => {
+  switch (type) {
+    case 'line':
+    case 'bar':
+    case 'scatter':
+    case 'area':
+    case 'stacked-bar':
+      return createTimeChart(type, tables, config, overlays)
+    case 'histogram':
+      return createHistogram(tables, config)
+    case 'heatmap':
+      return createHeatmap(tables, config)
+    case 'gauge':
+      return createGauge(tables, config)
+  }
+}
+
+// Spreading large raw results into "Math.min" exceeds the call stack
+const getValueRange = (values: number[]): [number, number] => values.reduce<[number, number]>(
+  ([min, max], v) => [Math.min(min, v), Math.max(max, v)],
+  [Infinity, -Infinity]
+)
+
+const sortTables = (tables: InfluxTableMap): [number, InfluxRow[]][] => [...tables.entries()]
+  .sort((a, b) => {
+    // Sort based on the first row's timestamp
+    const aRow = a[1].at(0)
+    const bRow = b[1].at(0)
+    if (!aRow || !bRow) {
+      throw new Error('Invalid InfluxDB table rows, could not sort.')
+    }
+
+    return aRow._time.localeCompare(bRow._time)
+  })
+
+const toLabel = (table: number, rows: InfluxRow[]) => `${table} - ${rows.at(0)?._field ?? 'Unknown'}`
+
+// Every table is a dataset with timestamps on the x-axis
+const createTimeChart = (
+  type: 'line' | 'bar' | 'scatter' | 'area' | 'stacked-bar',
+  tables: InfluxTableMap,
+  config: ChartConfig,
+  overlays: ChartOverlays
+): ChartConfiguration => {
+  const { compared, annotations } = overlays
+  const { min, max } = config
+  const thresholds = config.thresholds ?? []
+  const y2 = config.y2 ?? []
+  const stacked = type === 'area' || type === 'stacked-bar'
+  const linear = type === 'scatter' || !!compared // Compared values don't share the same timestamps
+  const periods: [InfluxTableMap, string | undefined][] = compared
+    ? [[tables, CURRENT_PERIOD_LABEL], [compared, `-${config.compare}`]]
+    : [[tables, undefined]]
+
+  const datasets: ChartDataset<'line' | 'bar' | 'scatter', ScatterDataPoint[]>[] = periods
+    .flatMap(([periodTables, period]) => sortTables(periodTables).map(([table, rows], i) => ({
+      label: period ? `${toLabel(table, rows)} (${period})` : toLabel(table, rows),
+      data: linear ? rows.map(toTimestampXy) : rows.map(toXy),
+      yAxisID: isSecondaryAxis(rows, y2) ? 'y2' : 'y',
+      stack: period, // Periods are stacked separately
+      ...(period && period !== CURRENT_PERIOD_LABEL && { borderDash: [10, 5] }),
+      ...(type === 'area' && { fill: i === 0 ? 'origin' : '-1' }), // Fill between the stacked datasets
+      ...(type === 'scatter' && { pointRadius: config.radius ?? 3 })
+    })))
 
   const xDateFormat = X_DATE_FORMAT.concat(config.seconds ? ':ss' : '')
-  const chartjs: ChartConfiguration = {
-    type,
+  return {
+    type: type === 'area' ? 'line' : type === 'stacked-bar' ? 'bar' : type,
     data: { datasets },
     options: {
       scales: {
-        y: { min, max },
+        y: {
+          min,
+          max,
+          stacked,
+          // Keep the thresholds visible
+          suggestedMin: thresholds.length > 0 ? Math.min(...thresholds) : undefined,
+          suggestedMax: thresholds.length > 0 ? Math.max(...thresholds) : undefined
+        },
+        y2: {
+          display: datasets.some(d => d.yAxisID === 'y2'),
+          position: 'right',
+          stacked,
+          grid: { drawOnChartArea: false } // Only the primary y-axis has grid lines
+        },
         x: {
+          type: linear ? 'linear' : undefined,
+          stacked,
           ticks: {
             // Format x-axis timestamp labels
             callback (tick): string | null {
-              // Line chart uses the index as tick value
-              if (typeof tick === 'number') {
-                const value = this.getLabelForValue(tick)
-                return formatInTimeZone(parseISO(value), TZ, xDateFormat)
+              if (typeof tick !== 'number') {
+                return null
               }
 
-              return null
+              // Linear x-axis uses the timestamp as tick value, others use the index
+              const time = linear ? new Date(tick) : parseISO(this.getLabelForValue(tick))
+              return formatInTimeZone(time, TZ, xDateFormat)
+            }
+          }
+        }
+      }
+    },
+    plugins: [createThresholdPlugin(thresholds), createAnnotationPlugin(annotations ?? [], linear)]
+  }
+}
+
+// Values of every table are counted into shared bins
+const createHistogram = (tables: InfluxTableMap, config: ChartConfig): ChartConfiguration => {
+  const sorted = sortTables(tables)
+  const values = sorted.flatMap(([, rows]) => rows.map(r => r._value))
+  const [min, max] = getValueRange(values)
+  const low = config.min ?? min
+  const high = config.max ?? max
+  const bins = high > low ? config.bins ?? DEFAULT_HISTOGRAM_BINS : 1
+  const width = high > low ? (high - low) / bins : 1
+  const toBin = (value: number) => Math.min(Math.floor((value - low) / width), bins - 1)
+
+  const labels = [...Array(bins).keys()].map(i => `${formatValue(low + i * width)} - ${formatValue(low + (i + 1) * width)}`)
+  const datasets: ChartDataset<'bar', number[]>[] = sorted.map(([table, rows]) => {
+    const counts: number[] = new Array(bins).fill(0)
+    rows
+      .filter(r => r._value >= low && r._value <= high)
+      .forEach(r => counts[toBin(r._value)]++)
+
+    return { label: toLabel(table, rows), data: counts }
+  })
+
+  return {
+    type: 'bar',
+    data: { labels, datasets },
+    options: {
+      scales: {
+        y: { beginAtZero: true, ticks: { precision: 0 } }
+      }
+    }
+  }
+}
+
+// Values of every table are averaged by the hour of the day (x-axis) and the day (y-axis)
+const createHeatmap = (tables: InfluxTableMap, config: ChartConfig): ChartConfiguration => {
+  const rows = [...tables.values()].flat()
+  const sums: Map<string, Map<number, { sum: number, count: number }>> = new Map()
+  rows.forEach(r => {
+    const time = parseISO(r._time)
+    const day = formatInTimeZone(time, TZ, 'yyyy-MM-dd')
+    const hour = Number(formatInTimeZone(time, TZ, 'H'))
+    const hours = sums.get(day) ?? new Map<number, { sum: number, count: number }>()
+    const cell = hours.get(hour) ?? { sum: 0, count: 0 }
+    hours.set(hour, { sum: cell.sum + r._value, count: cell.count + 1 })
+    sums.set(day, hours)
+  })
+
+  const days = [...sums.keys()].sort()
+  const cells: HeatmapCell[] = days.flatMap((day, y) => (
+    [...(sums.get(day)?.entries() ?? [])].map(([x, cell]) => ({ x, y, value: cell.sum / cell.count }))
+  ))
+
+  return {
+    type: 'scatter',
+    data: {
+      datasets: [{ data: cells.map(c => ({ x: c.x, y: c.y })), pointRadius: 0 }]
+    },
+    options: {
+      scales: {
+        x: {
+          min: -0.5,
+          max: 23.5,
+          grid: { display: false },
+          ticks: {
+            stepSize: 1,
+            callback: (tick) => Number.isInteger(tick) ? `${tick}` : null
+          }
+        },
+        y: {
+          min: -0.5,
+          max: days.length - 0.5,
+          reverse: true,
+          grid: { display: false },
+          ticks: {
+            stepSize: 1,
+            callback: (tick) => {
+              const day = days.at(Number(tick))
+              return Number.isInteger(tick) && day ? format(parseISO(day), HEATMAP_DAY_FORMAT) : null
             }
           }
         }
       },
       plugins: {
-        autocolors: { offset: color ?? 3 } // Nicer to eyes :)
+        legend: { display: false }
+      }
+    },
+    plugins: [createHeatmapPlugin(cells, config)]
+  }
+}
+
+const createHeatmapPlugin = (cells: HeatmapCell[], config: ChartConfig): Plugin => ({
+  id: 'heatmap',
+  beforeDatasetsDraw(chart) {
+    const { ctx, scales } = chart
+    const values = cells.map(c => c.value)
+    const [min, max] = getValueRange(values)
+    const low = config.min ?? min
+    const high = config.max ?? max
+    const width = Math.abs(scales.x.getPixelForValue(1) - scales.x.getPixelForValue(0))
+    const height = Math.abs(scales.y.getPixelForValue(1) - scales.y.getPixelForValue(0))
+
+    ctx.save()
+    ctx.font = '14px sans-serif'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    cells.forEach(c => {
+      const x = scales.x.getPixelForValue(c.x)
+      const y = scales.y.getPixelForValue(c.y)
+      const ratio = high > low ? Math.min(Math.max((c.value - low) / (high - low), 0), 1) : 0.5
+      ctx.fillStyle = interpolateColor(HEATMAP_LOW_COLOR, HEATMAP_HIGH_COLOR, ratio)
+      ctx.fillRect(x - width / 2, y - height / 2, width, height)
+      ctx.fillStyle = 'black'
+      ctx.fillText(formatValue(c.value), x, y)
+    })
+
+    ctx.restore()
+  }
+})
+
+// The latest value of the first table is shown on a half doughnut between "min" and "max"
+const createGauge = (tables: InfluxTableMap, config: ChartConfig): ChartConfiguration => {
+  const [table, rows] = sortTables(tables)[0]
+  const row = rows.at(-1)
+  const low = config.min ?? DEFAULT_GAUGE_MIN
+  const high = config.max ?? DEFAULT_GAUGE_MAX
+  const value = row?._value ?? low
+  const clamped = Math.min(Math.max(value, low), high)
+
+  const chartjs: ChartConfiguration<'doughnut'> = {
+    type: 'doughnut',
+    data: {
+      labels: [toLabel(table, rows)],
+      datasets: [{
+        data: [clamped - low, high - clamped],
+        backgroundColor: [GAUGE_COLOR, GAUGE_BACKGROUND_COLOR]
+      }]
+    },
+    options: {
+      circumference: 180,
+      rotation: -90,
+      cutout: '60%',
+      plugins: {
+        legend: { display: false },
+        tooltip: { enabled: false }
       }
+    },
+    plugins: [createGaugePlugin(value, toLabel(table, rows), low, high, config)]
+  }
+
+  return chartjs as ChartConfiguration // Doughnut options are missing from the generic configuration type
+}
+
+const createGaugePlugin = (value: number, label: string, low: number, high: number, config: ChartConfig): Plugin<'doughnut'> => ({
+  id: 'gauge',
+  afterDatasetsDraw(chart) {
+    const arc = chart.getDatasetMeta(0).data.at(0) as ArcElement | undefined
+    if (!arc) {
+      return
     }
+
+    const { ctx } = chart
+    const { x, y, innerRadius, outerRadius } = arc.getProps(['x', 'y', 'innerRadius', 'outerRadius'], true)
+    const size = Math.round(innerRadius / 3)
+    ctx.save()
+    ctx.fillStyle = 'black'
+    ctx.textAlign = 'center'
+    ctx.font = `bold ${size}px sans-serif`
+    ctx.fillText(value.toFixed(config.decimals ?? DEFAULT_GAUGE_DECIMALS), x, y - size / 2)
+    ctx.font = `${Math.round(size / 3)}px sans-serif`
+    ctx.fillText(label, x, y + size / 2)
+    ctx.fillText(`${low}`, x - (innerRadius + outerRadius) / 2, y + size / 2)
+    ctx.fillText(`${high}`, x + (innerRadius + outerRadius) / 2, y + size / 2)
+    ctx.restore()
   }
+})
 
-  return await chartNodeCanvas.renderToBuffer(chartjs)
+const formatValue = (value: number): string => `${Number(value.toFixed(2))}`
+
+// Colors are given as [r, g, b]
+const interpolateColor = (from: number[], to: number[], ratio: number): string => {
+  const [r, g, b] = from.map((c, i) => Math.round(c + (to[i] - c) * ratio))
+  return `rgb(${r}, ${g}, ${b})`
 }
@@ -0,0 +1,98 @@
+import { Readable } from 'stream'
+import { Point } from '@influxdata/influxdb-client'
+import { z } from 'zod'
+import { InfluxRow } from './influx/model'
+import { getInfluxTags } from './util'
+
+export type ExportFormat = 'csv' | 'json' | 'lp'
+
+export const ExportFormatValidator: z.ZodType<ExportFormat> = z.union([
+  z.literal('csv'),
+  z.literal('json'),
+  z.literal('lp')
+])
+
+const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  lp: 'txt'
+}
+
+type InfluxRows = AsyncIterable<InfluxRow> | Iterable<InfluxRow>
+
+const CSV_COLUMNS = ['_time', '_measurement', '_field', '_value']
+
+export const toExportFilename = (name: string, format: ExportFormat): string => (
+  `${name.replace(/[^\w-]/g, '_')}.${EXPORT_FILE_EXTENSIONS[format]}`
+)
+
+// Puts back the row that was read before creating the export stream
+export async function * prependRow(row: InfluxRow, rows: AsyncIterable<InfluxRow>): AsyncGenerator<InfluxRow> {
+  yield row
+  for await (const next of rows) {
+    yield next
+  }
+}
+
+// Rows are written to the stream one by one, so the whole export is never in memory
+export const createExportStream = (rows: InfluxRows, format: ExportFormat, tags: string[]): Readable => {
+  switch (format) {
+    case 'csv':
+      return Readable.from(toCsvLines(rows, tags))
+    case 'json':
+      return Readable.from(toJsonLines(rows))
+    case 'lp':
+      return Readable.from(toLineProtocolLines(rows))
+  }
+}
+
+// Tag columns must be known beforehand, since the header is written first
+async function * toCsvLines(rows: InfluxRows, tags: string[]): AsyncGenerator<string> {
+  yield [...CSV_COLUMNS, ...tags].map(toCsvValue).join(',') + '\n'
+  for await (const row of rows) {
+    const values = [row._time, row._measurement, row._field, row._value, ...tags.map(t => row[t] ?? '')]
+    yield values.map(toCsvValue).join(',') + '\n'
+  }
+}
+
+async function * toJsonLines(rows: InfluxRows): AsyncGenerator<string> {
+  let first = true
+  yield '['
+  for await (const row of rows) {
+    const { _time, _measurement, _field, _value } = row
+    const json = JSON.stringify({ _time, _measurement, _field, _value, ...Object.fromEntries(getInfluxTags(row)) })
+    yield `${first ? '' : ','}\n  ${json}`
+    first = false
+  }
+
+  yield '\n]\n'
+}
+
+async function * toLineProtocolLines(rows: InfluxRows): AsyncGenerator<string> {
+  for await (const row of rows) {
+    const point = new Point(row._measurement).timestamp(toNanoseconds(row._time))
+    getInfluxTags(row).forEach(([k, v]) => point.tag(k, v))
+    const line = (typeof row._value === 'number' ? point.floatField(row._field, row._value) : point.stringField(row._field, row._value))
+      .toLineProtocol()
+
+    if (line) {
+      yield `${line}\n`
+    }
+  }
+}
+
+const toCsvValue = (value: unknown): string => {
+  const str = `${value}`
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+// InfluxDB timestamps can have nanosecond precision, which doesn't fit into Date
+const toNanoseconds = (time: string): string => {
+  const [, seconds, fraction] = time.match(/^(.+?)(?:\.(\d+))?Z$/) ?? []
+  if (!seconds) {
+    return `${new Date(time).getTime()}000000`
+  }
+
+  const nanoseconds = BigInt(new Date(`${seconds}Z`).getTime()) * 1_000_000n
+  return (nanoseconds + BigInt((fraction ?? '').padEnd(9, '0').slice(0, 9))).toString()
+}
@@ -1,11 +1,20 @@
 import { formatDistance, parseISO } from 'date-fns'
-import { InfluxRow } from './influx/model'
-import { getInfluxRowFieldName, getInfluxTags, InfluxTableMap } from './util'
+import { formatInTimeZone } from 'date-fns-tz'
+import { INFLUX_DEFAULT_CONNECTION } from './influx/connection'
+import { INFLUX_STATS, InfluxPoint, InfluxReducer, InfluxRow, InfluxTagFilter } from './influx/model'
+import { getInfluxRowFieldName, getInfluxTags, InfluxTableMap, toArrayOrUndefined, TZ } from './util'
 
 const ROW_INDENT = ' '.repeat(2)
+const TABLE_TRUNCATED = '...'
+const STATS_WITH_TIME: Set<InfluxReducer> = new Set(['min', 'max', 'first', 'last'])
+const STATS_TIME_FORMAT = 'd.M.yyyy H:mm:ss'
+const IGNORED_TABLE_COLUMNS = new Set(['result', 'table', '_start', '_stop'])
 export const createMdHeader = (header: string): string => `${header}:\n${'='.repeat(header.length + 1)}`
 export const createMdBlock = (text: string): string => '```\n' + text + '\n```'
 
+// External text (errors etc.) can contain characters that end the code block in MarkdownV2
+export const escapeMdBlock = (text: string): string => text.replace(/[`\\]/g, '\\$&')
+
 export const toMdList = (items: any[], header?: string): string => {
   const builder: string[] = []
   if (header) {
@@ -45,23 +54,158 @@ export const toInfluxRowMdList = (
   return createMdBlock(builder.join('\n'))
 }
 
+// Columns are the union of the row keys, rows are left out when "maxLength" is reached
+export const toInfluxRowMdTable = (
+  rows: InfluxRow[],
+  config: {
+    readonly header?: string
+    readonly maxLength?: number
+  }
+): string => {
+  const { header, maxLength } = config
+  const columns = [...new Set(rows.flatMap(r => Object.keys(r)))].filter(c => !IGNORED_TABLE_COLUMNS.has(c))
+  const values = rows.map(r => columns.map(c => `${r[c] ?? ''}`))
+  const widths = columns.map((c, i) => Math.max(c.length, ...values.map(v => v[i].length)))
+  // Widths are measured before escaping, since the escape characters are not shown
+  const toLine = (items: string[]) => escapeMdBlock(items.map((v, i) => v.padEnd(widths[i])).join(' | ').trimEnd())
+
+  const builder: string[] = []
+  if (header) {
+    builder.push(createMdHeader(header))
+  }
+
+  builder.push(toLine(columns), widths.map(w => '-'.repeat(w)).join('-|-'))
+  let length = builder.join('\n').length + TABLE_TRUNCATED.length
+  for (const [i, line] of values.map(toLine).entries()) {
+    length += line.length + 1
+    if (maxLength && length > maxLength) {
+      builder.push(`${TABLE_TRUNCATED} (${i}/${values.length})`)
+      break
+    }
+
+    builder.push(line)
+  }
+
+  return createMdBlock(builder.join('\n'))
+}
+
+// Rows of "getStats" grouped by series
+export const toInfluxStatsMdList = (
+  rows: InfluxRow[],
+  config: {
+    readonly header?: string
+    readonly tags?: string[]
+  }
+): string => {
+  const { header, tags } = config
+  const builder: string[] = []
+  if (header) {
+    builder.push(createMdHeader(header))
+  }
+
+  const series = new Map<string, InfluxRow[]>()
+  rows.forEach(r => {
+    const key = toInfluxSeriesKey([r])
+    series.set(key, [...series.get(key) ?? [], r])
+  })
+
+  for (const seriesRows of series.values()) {
+    builder.push(`\`${getInfluxRowFieldName(seriesRows)}\`:`)
+    getInfluxTags(seriesRows)
+      .filter(([k]) => !tags || tags.includes(k))
+      .forEach(([k, v]) => builder.push(`${ROW_INDENT}# \`${k}\`: \`${v}\``))
+
+    INFLUX_STATS.forEach(stat => {
+      const row = seriesRows.find(r => r._stat === stat)
+      if (row) {
+        const time = STATS_WITH_TIME.has(stat) ? ` (${formatInTimeZone(parseISO(row._time), TZ, STATS_TIME_FORMAT)})` : ''
+        // Reducers like "stddev" return null for too few points
+        const value = typeof row._value === 'number' ? Number(row._value.toFixed(4)) : '-'
+        builder.push(`${ROW_INDENT}${stat}: \`${value}\`${time}`)
+      }
+    })
+
+    builder.push('')
+  }
+
+  return createMdBlock(builder.join('\n').trimEnd())
+}
+
 export const toInfluxTimestampDistanceMd = (r: InfluxRow, now = new Date()): string => (
   formatDistance(parseISO(r._time), now, { includeSeconds: true })
 )
 
+export const toInfluxTagSetStr = (r: InfluxRow): string => (
+  getInfluxTags(r).map(([k, v]) => `${k}=${v}`).join(',') || '*'
+)
+
+// Example: 'staging/my-bucket', the default connection is omitted
+export const toInfluxBucketStr = (bucket: string, conn?: string): string => (
+  conn && conn !== INFLUX_DEFAULT_CONNECTION ? `${conn}/${bucket}` : bucket
+)
+
+// Line protocol without timestamp, example: 'climate,room=office temperature=21.5'
+export const toInfluxPointStr = (point: InfluxPoint): string => {
+  const tags = Object.entries(point.tags).map(([k, v]) => `,${escapeLpKey(k)}=${escapeLpKey(v)}`).join('')
+  const fields = point.fields.map(({ field, type, value }) => {
+    const key = escapeLpKey(field)
+    switch (type) {
+      case 'int':
+        return `${key}=${value}i`
+      case 'string':
+        return `${key}="${String(value).replace(/["\\]/g, '\\$&')}"`
+      default:
+        return `${key}=${value}`
+    }
+  })
+
+  return `${point.measurement.replace(/[, ]/g, '\\$&')}${tags} ${fields.join(',')}`
+}
+
+// Tag keys, tag values and field keys of the line protocol
+const escapeLpKey = (key: string): string => key.replace(/[,= ]/g, '\\$&')
+
+// Inverse of "InfluxWhereValidator"
+export const toInfluxWhereStr = (where: InfluxTagFilter[]): string => {
+  if (where.length === 0) {
+    return '*'
+  }
+
+  return where.map(filter => {
+    if ('or' in filter) {
+      return filter.or.map(toInfluxWhereStr).join('||')
+    }
+
+    const { tag, operator, value } = filter
+    switch (operator ?? '=') {
+      case 'exists':
+        return `exists(${tag})`
+      case '!exists':
+        return `!exists(${tag})`
+      case '=~':
+      case '!~':
+        return `${tag}${operator}/${value}/`
+      default:
+        return `${tag}${operator ?? '='}${toArrayOrUndefined(value)?.join('|') ?? ''}`
+    }
+  }).join(',')
+}
+
 export const toInfluxTableTagMdList = (
   tables: InfluxTableMap,
   config: {
     readonly header?: string
     readonly tags?: string[]
+    readonly compared?: InfluxTableMap // Shows the change of the mean from the compared series
   }
 ): string => {
-  const { header, tags } = config
+  const { header, tags, compared } = config
   const builder: string[] = []
   if (header) {
     builder.push(createMdHeader(header))
   }
 
+  const comparedRows = new Map([...compared?.values() ?? []].map(rows => [toInfluxSeriesKey(rows), rows]))
   for (const [table, rows] of [...tables.entries()]) {
     builder.push(`${table} - \`${getInfluxRowFieldName(rows)}\``)
 
@@ -69,12 +213,30 @@ export const toInfluxTableTagMdList = (
       .filter(([k]) => !tags || tags.includes(k)) // Show only the specified tags
       .forEach(([k, v]) => builder.push(`${ROW_INDENT}# \`${k}\`: \`${v}\``))
 
+    const previous = comparedRows.get(toInfluxSeriesKey(rows))
+    if (previous) {
+      builder.push(`${ROW_INDENT}Δ mean: \`${toMeanDeltaStr(rows, previous)}\``)
+    }
+
     builder.push('')
   }
 
   return createMdBlock(builder.join('\n'))
 }
 
+const toInfluxSeriesKey = (rows: InfluxRow[]): string => {
+  const row = rows.at(0)
+  return row ? `${row._measurement}:${row._field} ${toInfluxTagSetStr(row)}` : ''
+}
+
+const toMeanDeltaStr = (rows: InfluxRow[], previous: InfluxRow[]): string => {
+  const [current, before] = [rows, previous].map(r => r.reduce((acc, row) => acc + row._value, 0) / r.length)
+  const delta = current - before
+  const sign = delta >= 0 ? '+' : ''
+  const percent = before !== 0 ? ` (${sign}${(delta / Math.abs(before) * 100).toFixed(1)}%)` : ''
+  return `${sign}${Number(delta.toFixed(2))}${percent}`
+}
+
 export const formatObject = (o: object, delimiter = '\n', prefix = ''): string => {
   const builder: string[] = []
   for (const [k, v] of Object.entries(o)) {
@@ -0,0 +1,85 @@
+import {
+  InfluxAggregateParams,
+  InfluxBucket,
+  InfluxFieldSelector,
+  InfluxMeasurement,
+  InfluxRow,
+  InfluxTagFilter,
+  InfluxTagParams,
+  InfluxTimespanParams
+} from './model'
+
+// Operations supported by every backend, the results have the same shape as the Flux results
+export type InfluxBackend = {
+  readonly getBuckets: () => Promise<InfluxBucket[]>
+  readonly getMeasurements: (bucket: string, config: InfluxTimespanParams) => Promise<InfluxMeasurement[] | null>
+  readonly getFields: (bucket: string, measurement: string, config: InfluxTimespanParams) => Promise<string[] | null>
+  readonly getTags: (bucket: string, measurement: string, config: InfluxTimespanParams) => Promise<string[] | null>
+  readonly getTagValues: (
+    bucket: string,
+    measurement: string,
+    tag: string,
+    config: InfluxTimespanParams
+  ) => Promise<string[] | null>
+  readonly getLastValue: (
+    bucket: string,
+    measurement: string,
+    field: string,
+    where: InfluxTagFilter[],
+    config: InfluxTagParams
+  ) => Promise<InfluxRow[] | null>
+  readonly getValuesFromTimespan: (
+    bucket: string,
+    fields: InfluxFieldSelector[],
+    where: InfluxTagFilter[],
+    config: InfluxAggregateParams,
+    shift?: string
+  ) => Promise<InfluxRow[] | null>
+}
+
+// Result row of InfluxQL and SQL queries, every field is a separate column
+export type InfluxRecord = Record<string, string | number | boolean | null>
+
+// Table numbers of the series, shared between the queries of the same result
+export type InfluxTableIndex = Map<string, number>
+
+// SQL timestamps don't have the time zone, but they are always UTC
+export const toInfluxTime = (time: unknown): string => {
+  const str = `${time}`
+  return /(Z|[+-]\d{2}:\d{2})$/.test(str) ? str : `${str}Z`
+}
+
+// Every field of every tag set becomes a separate table like in Flux results
+export const toInfluxRows = (
+  records: InfluxRecord[],
+  measurement: string,
+  fields: string[],
+  tables: InfluxTableIndex = new Map()
+): InfluxRow[] => {
+  const rows = records.flatMap(record => fields.flatMap(field => {
+    const value = record[field]
+    if (value === null || value === undefined) {
+      return []
+    }
+
+    const tags = Object.entries(record)
+      .filter(([key, v]) => key !== 'time' && !fields.includes(key) && v !== null && v !== '')
+      .map(([key, v]) => [key, `${v}`])
+      .sort(([a], [b]) => a.localeCompare(b))
+
+    const key = JSON.stringify([measurement, field, tags])
+    const table = tables.get(key) ?? tables.size
+    tables.set(key, table)
+    return {
+      ...Object.fromEntries(tags),
+      result: '_result',
+      table,
+      _time: toInfluxTime(record.time),
+      _measurement: measurement,
+      _field: field,
+      _value: typeof value === 'boolean' ? `${value}` : value
+    }
+  }))
+
+  return rows.sort((a, b) => a.table - b.table)
+}
@@ -0,0 +1,74 @@
+import { InfluxDB, QueryApi } from '@influxdata/influxdb-client'
+import { z } from 'zod'
+
+// Query language of the InfluxDB version: Flux (2.x), InfluxQL (1.x) or SQL (3.x)
+export type InfluxBackendType = 'flux' | 'influxql' | 'sql'
+
+export const InfluxBackendTypeValidator: z.ZodType<InfluxBackendType> = z.union([
+  z.literal('flux'),
+  z.literal('influxql'),
+  z.literal('sql')
+])
+
+export type InfluxConnection = {
+  readonly name: string
+  readonly org: string
+  readonly backend: InfluxBackendType
+  readonly client: InfluxDB
+  readonly queryApi: QueryApi
+}
+
+export const INFLUX_DEFAULT_CONNECTION = 'default'
+
+// Example: "staging,prod" + INFLUX_STAGING_URL, INFLUX_STAGING_TOKEN, INFLUX_STAGING_ORG, ...
+const INFLUX_CONNECTIONS = process.env.INFLUX_CONNECTIONS?.split(',').filter(c => !!c) ?? []
+
+// Organization is not used by InfluxQL and SQL, but it is still required for writing through the v2 API
+const createConnection = (
+  name: string,
+  url?: string,
+  token?: string,
+  org?: string,
+  backend?: string
+): InfluxConnection => {
+  if (!url || !token || !org) {
+    throw new Error(`InfluxDB env variables not provided for connection "${name}", see README.md.`)
+  }
+
+  const client = new InfluxDB({ url, token })
+  return { name, org, backend: InfluxBackendTypeValidator.parse(backend ?? 'flux'), client, queryApi: client.getQueryApi(org) }
+}
+
+const connections: Map<string, InfluxConnection> = new Map([
+  INFLUX_DEFAULT_CONNECTION,
+  ...INFLUX_CONNECTIONS
+].map(name => {
+  const prefix = name === INFLUX_DEFAULT_CONNECTION ? 'INFLUX' : `INFLUX_${name.toUpperCase().replace(/\W/g, '_')}`
+  const {
+    [`${prefix}_URL`]: url,
+    [`${prefix}_TOKEN`]: token,
+    [`${prefix}_ORG`]: org,
+    [`${prefix}_BACKEND`]: backend
+  } = process.env
+
+  return [name, createConnection(name, url, token, org, backend)]
+}))
+
+export const InfluxConnectionNameValidator: z.ZodType<string> = z
+  .string()
+  .refine(name => connections.has(name), name => ({ message: `Unknown connection: "${name}"` }))
+
+export const getInfluxConnectionNames = (): string[] => [...connections.keys()]
+
+// Unknown names are rejected by the validator before the queries
+export const getInfluxConnection = (name = INFLUX_DEFAULT_CONNECTION): InfluxConnection => {
+  const connection = connections.get(name)
+  if (!connection) {
+    throw new Error(`Unknown connection: "${name}"`)
+  }
+
+  return connection
+}
+
+// Windows, changes, statistics, events and raw scripts are only written in Flux
+export const isFluxConnection = (name = INFLUX_DEFAULT_CONNECTION): boolean => connections.get(name)?.backend === 'flux'
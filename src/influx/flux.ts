@@ -0,0 +1,169 @@
+import { flux, HttpError, QueryApi } from '@influxdata/influxdb-client'
+import { InfluxBackend } from './backend'
+import {
+  InfluxAggregateParams,
+  InfluxBucket,
+  InfluxField,
+  InfluxFieldSelector,
+  InfluxKey,
+  InfluxMeasurement,
+  InfluxRow,
+  InfluxTagFilter,
+  InfluxTagParams,
+  InfluxTimespanParams
+} from './model'
+import {
+  createFieldFilter,
+  createMeasurementFilter,
+  createRange,
+  createTimespanQuery,
+  createWhereFilter
+} from './query'
+
+export const createFluxBackend = (queryApi: QueryApi): InfluxBackend => ({
+  getBuckets: () => getBuckets(queryApi),
+  getMeasurements: (...args) => getMeasurements(queryApi, ...args),
+  getFields: (...args) => getFields(queryApi, ...args),
+  getTags: (...args) => getTags(queryApi, ...args),
+  getTagValues: (...args) => getTagValues(queryApi, ...args),
+  getLastValue: (...args) => getLastValue(queryApi, ...args),
+  getValuesFromTimespan: (...args) => getValuesFromTimespan(queryApi, ...args)
+})
+
+const getBuckets = async (queryApi: QueryApi): Promise<InfluxBucket[]> => (
+  queryApi.collectRows<InfluxBucket>('buckets()')
+)
+
+const getMeasurements = async (queryApi: QueryApi, bucket: string, config: InfluxTimespanParams): Promise<InfluxMeasurement[] | null> => {
+  const query = flux`
+    from(bucket: ${bucket})
+      ${createRange(config)}
+      |> keys()
+      |> keep(columns: ["_measurement"])
+      |> distinct(column: "_measurement")
+  `
+
+  try {
+    return await queryApi.collectRows<InfluxMeasurement>(query)
+  } catch (err) {
+    if (err instanceof HttpError && err.statusCode === 404) {
+      return null
+    }
+
+    throw err
+  }
+}
+
+const getFields = async (queryApi: QueryApi, bucket: string, measurement: string, config: InfluxTimespanParams): Promise<string[] | null> => {
+  const query = flux`
+    from(bucket: ${bucket})
+      ${createRange(config)}
+      ${createMeasurementFilter(measurement)}
+      |> group(columns: ["_field"])
+      |> distinct(column: "_field")
+  `
+
+  try {
+    const rows = await queryApi.collectRows<InfluxField>(query)
+    return rows.map(r => r._field)
+  } catch (err) {
+    if (err instanceof HttpError && err.statusCode === 404) {
+      return null
+    }
+
+    throw err
+  }
+}
+
+const getTags = async (queryApi: QueryApi, bucket: string, measurement: string, config: InfluxTimespanParams): Promise<string[] | null> => {
+  const query = flux`
+    from(bucket: ${bucket})
+      ${createRange(config)}
+      ${createMeasurementFilter(measurement)}
+      |> keys()
+      |> group()
+      |> distinct()
+  `
+
+  try {
+    const rows = await queryApi.collectRows<InfluxKey>(query)
+    return rows.map(r => r._value).filter(c => !c.startsWith('_'))
+  } catch (err) {
+    if (err instanceof HttpError && err.statusCode === 404) {
+      return null
+    }
+
+    throw err
+  }
+}
+
+const getTagValues = async (queryApi: QueryApi, bucket: string, measurement: string, tag: string, config: InfluxTimespanParams): Promise<string[] | null> => {
+  const query = flux`
+    from(bucket: ${bucket})
+      ${createRange(config)}
+      ${createMeasurementFilter(measurement)}
+      |> keyValues(keyColumns: [${tag}])
+      |> group()
+      |> distinct()
+  `
+
+  try {
+    const rows = await queryApi.collectRows<InfluxKey>(query)
+    return rows.map(r => r._value).filter(c => !c.startsWith('_'))
+  } catch (err) {
+    if (err instanceof HttpError && err.statusCode === 404) {
+      return null
+    }
+
+    throw err
+  }
+}
+
+const getLastValue = async (
+  queryApi: QueryApi,
+  bucket: string,
+  measurement: string,
+  field: string,
+  where: InfluxTagFilter[],
+  config: InfluxTagParams
+): Promise<InfluxRow[] | null> => {
+  const query = flux`
+    from(bucket: ${bucket})
+      ${createRange(config)}
+      ${createMeasurementFilter(measurement)}
+      ${createWhereFilter(where)}
+      ${createFieldFilter(field)}
+      |> last()
+  `
+
+  try {
+    return await queryApi.collectRows<InfluxRow>(query)
+  } catch (err) {
+    if (err instanceof HttpError && err.statusCode === 404) {
+      return null
+    }
+
+    throw err
+  }
+}
+
+const getValuesFromTimespan = async (
+  queryApi: QueryApi,
+  bucket: string,
+  fields: InfluxFieldSelector[],
+  where: InfluxTagFilter[],
+  config: InfluxAggregateParams,
+  shift?: string // Values from the range shifted back by the duration, timestamps are kept in the range
+): Promise<InfluxRow[] | null> => {
+  const query = createTimespanQuery(bucket, fields, where, config, shift)
+
+  try {
+    return await queryApi.collectRows<InfluxRow>(query)
+  } catch (err) {
+    if (err instanceof HttpError && err.statusCode === 404) {
+      return null
+    }
+
+    throw err
+  }
+}
@@ -1,56 +1,144 @@
-import { HttpError, InfluxDB } from '@influxdata/influxdb-client'
+import { Cancellable, flux, FluxTableMetaData, HttpError, Point, QueryApi } from '@influxdata/influxdb-client'
+import { InfluxBackend } from './backend'
+import { getInfluxConnection, getInfluxConnectionNames, InfluxConnection } from './connection'
+import { createFluxBackend } from './flux'
+import { createInfluxQLBackend } from './influxql'
 import {
+  INFLUX_STATS,
   InfluxAggregateParams,
   InfluxBucket,
-  InfluxField,
-  InfluxKey,
+  InfluxChange,
+  InfluxFieldSelector,
+  InfluxFluxResult,
   InfluxMeasurement,
+  InfluxPoint,
+  InfluxReducer,
   InfluxRow,
   InfluxTagParams,
   InfluxTimespanParams,
   InfluxTagFilter
 } from './model'
+import {
+  createAbsoluteRange,
+  createChange,
+  createCountRange,
+  createFieldFilter,
+  createFieldSelectorFilter,
+  createMeasurementFilter,
+  createRange,
+  createReducer,
+  createTimespanQuery,
+  createWhereFilter,
+  createWindowCount
+} from './query'
+import { createSqlBackend } from './sql'
 
-const INFLUX_URL = process.env.INFLUX_URL
-const INFLUX_TOKEN = process.env.INFLUX_TOKEN
-const INFLUX_ORG = process.env.INFLUX_ORG
+const INFLUX_FLUX_TIMEOUT_MS = Number(process.env.INFLUX_FLUX_TIMEOUT_MS) || 30000
+const INFLUX_FLUX_MAX_ROWS = Number(process.env.INFLUX_FLUX_MAX_ROWS) || 1000
+const INFLUX_EVENTS_LIMIT = 100
 
-if (!INFLUX_URL || !INFLUX_TOKEN || !INFLUX_ORG) {
-  throw new Error('InfluxDB env variables not provided, see README.md.')
+const createBackend = (connection: InfluxConnection): InfluxBackend => {
+  switch (connection.backend) {
+    case 'flux':
+      return createFluxBackend(connection.queryApi)
+    case 'influxql':
+      return createInfluxQLBackend(connection.client)
+    case 'sql':
+      return createSqlBackend(connection.client)
+  }
 }
 
-const queryApi = new InfluxDB({ url: INFLUX_URL, token: INFLUX_TOKEN }).getQueryApi(INFLUX_ORG)
-
-const createRange = (config: InfluxTimespanParams): string => {
-  const builder: string[] = ['|> range(']
+const backends: Map<string, InfluxBackend> = new Map()
 
-  builder.push(`start: ${config.start ?? '-7d'}`)
-  if (config.end) {
-    builder.push(`, stop: ${config.end}`)
+// Returns the names of the connections that can't be queried
+const getUnavailableConnections = async (): Promise<string[]> => {
+  const unavailable: string[] = []
+  for (const name of getInfluxConnectionNames()) {
+    try {
+      await getBackend(name).getBuckets()
+    } catch (err) {
+      unavailable.push(name)
+    }
   }
 
-  return builder.concat(')').join('')
+  return unavailable
 }
 
-const createWhereFilter = (where: InfluxTagFilter[]): string => where.length !== 0
-  ? where.map(filter => `r["${filter.tag}"] == "${filter.value}"`).join(' and ')
-  : 'true'
+const getBuckets = async (conn?: string): Promise<InfluxBucket[]> => getBackend(conn).getBuckets()
+
+const getMeasurements = async (bucket: string, config: InfluxTimespanParams): Promise<InfluxMeasurement[] | null> => (
+  getBackend(config.conn).getMeasurements(bucket, config)
+)
+
+const getFields = async (bucket: string, measurement: string, config: InfluxTimespanParams): Promise<string[] | null> => (
+  getBackend(config.conn).getFields(bucket, measurement, config)
+)
+
+const getTags = async (bucket: string, measurement: string, config: InfluxTimespanParams): Promise<string[] | null> => (
+  getBackend(config.conn).getTags(bucket, measurement, config)
+)
+
+const getTagValues = async (
+  bucket: string,
+  measurement: string,
+  tag: string,
+  config: InfluxTimespanParams
+): Promise<string[] | null> => (
+  getBackend(config.conn).getTagValues(bucket, measurement, tag, config)
+)
+
+const getLastValue = async (
+  bucket: string,
+  measurement: string,
+  field: string,
+  where: InfluxTagFilter[],
+  config: InfluxTagParams
+): Promise<InfluxRow[] | null> => (
+  getBackend(config.conn).getLastValue(bucket, measurement, field, where, config)
+)
 
-const getBuckets = async (): Promise<InfluxBucket[]> => (
-  queryApi.collectRows<InfluxBucket>('buckets()')
+const getValuesFromTimespan = async (
+  bucket: string,
+  fields: InfluxFieldSelector[],
+  where: InfluxTagFilter[],
+  config: InfluxAggregateParams,
+  shift?: string
+): Promise<InfluxRow[] | null> => (
+  getBackend(config.conn).getValuesFromTimespan(bucket, fields, where, config, shift)
 )
 
-const getMeasurements = async (bucket: string, config: InfluxTimespanParams): Promise<InfluxMeasurement[] | null> => {
-  const query = `
-    from(bucket: "${bucket}")
+const getLastValueOfFields = async (
+  bucket: string,
+  fields: InfluxFieldSelector[],
+  where: InfluxTagFilter[],
+  config: InfluxTagParams
+): Promise<InfluxRow[] | null> => {
+  if (getInfluxConnection(config.conn).backend !== 'flux') {
+    // Tables are numbered per query, so they are renumbered to keep them separate
+    const rows: InfluxRow[] = []
+    for (const { measurement, field } of fields) {
+      const fieldRows = await getLastValue(bucket, measurement, field, where, config)
+      if (!fieldRows) {
+        return null
+      }
+
+      const offset = rows.length > 0 ? Math.max(...rows.map(r => r.table)) + 1 : 0
+      rows.push(...fieldRows.map(r => ({ ...r, table: r.table + offset })))
+    }
+
+    return rows
+  }
+
+  const query = flux`
+    from(bucket: ${bucket})
       ${createRange(config)}
-      |> keys()
-      |> keep(columns: ["_measurement"])
-      |> distinct(column: "_measurement")
+      ${createFieldSelectorFilter(fields)}
+      ${createWhereFilter(where)}
+      |> last()
   `
 
   try {
-    return await queryApi.collectRows<InfluxMeasurement>(query)
+    return await getFluxQueryApi(config.conn).collectRows<InfluxRow>(query)
   } catch (err) {
     if (err instanceof HttpError && err.statusCode === 404) {
       return null
@@ -60,18 +148,17 @@ const getMeasurements = async (bucket: string, config: InfluxTimespanParams): Pr
   }
 }
 
-const getFields = async (bucket: string, measurement: string, config: InfluxTimespanParams): Promise<string[] | null> => {
-  const query = `
-    from(bucket: "${bucket}")
+// Raw points of all fields, limited per series
+const getEvents = async (bucket: string, measurement: string, config: InfluxTimespanParams): Promise<InfluxRow[] | null> => {
+  const query = flux`
+    from(bucket: ${bucket})
       ${createRange(config)}
-      |> filter(fn: (r) => r["_measurement"] == "${measurement}")
-      |> group(columns: ["_field"])
-      |> distinct(column: "_field")
+      ${createMeasurementFilter(measurement)}
+      |> limit(n: ${INFLUX_EVENTS_LIMIT})
   `
 
   try {
-    const rows = await queryApi.collectRows<InfluxField>(query)
-    return rows.map(r => r._field)
+    return await getFluxQueryApi(config.conn).collectRows<InfluxRow>(query)
   } catch (err) {
     if (err instanceof HttpError && err.statusCode === 404) {
       return null
@@ -81,41 +168,57 @@ const getFields = async (bucket: string, measurement: string, config: InfluxTime
   }
 }
 
-const getTags = async (bucket: string, measurement: string, config: InfluxTimespanParams): Promise<string[] | null> => {
-  const query = `
-    from(bucket: "${bucket}")
-      ${createRange(config)}
-      |> filter(fn: (r) => r["_measurement"] == "${measurement}")
-      |> keys()
-      |> group()
-      |> distinct()
-  `
+// Same as "getValuesFromTimespan", but the rows are streamed instead of collected in memory
+async function * iterateValuesFromTimespan(
+  bucket: string,
+  fields: InfluxFieldSelector[],
+  where: InfluxTagFilter[],
+  config: InfluxAggregateParams
+): AsyncGenerator<InfluxRow> {
+  if (getInfluxConnection(config.conn).backend !== 'flux') {
+    // Other backends don't support streaming, the rows are yielded after the query
+    for (const row of await getValuesFromTimespan(bucket, fields, where, config) ?? []) {
+      yield row
+    }
+
+    return
+  }
+
+  const query = createTimespanQuery(bucket, fields, where, config)
 
   try {
-    const rows = await queryApi.collectRows<InfluxKey>(query)
-    return rows.map(r => r._value).filter(c => !c.startsWith('_'))
+    for await (const { values, tableMeta } of getFluxQueryApi(config.conn).iterateRows(query)) {
+      yield toInfluxRow(values, tableMeta)
+    }
   } catch (err) {
     if (err instanceof HttpError && err.statusCode === 404) {
-      return null
+      return
     }
 
     throw err
   }
 }
 
-const getTagValues = async (bucket: string, measurement: string, tag: string, config: InfluxTimespanParams): Promise<string[] | null> => {
-  const query = `
-    from(bucket: "${bucket}")
-      ${createRange(config)}
-      |> filter(fn: (r) => r["_measurement"] == "${measurement}")
-      |> keyValues(keyColumns: ["${tag}"])
-      |> group()
-      |> distinct()
+const getWindowValue = async (
+  bucket: string,
+  measurement: string,
+  field: string,
+  where: InfluxTagFilter[],
+  fn: InfluxReducer,
+  config: InfluxTagParams
+): Promise<InfluxRow[] | null> => {
+  const range = createAbsoluteRange(config)
+  const query = flux`
+    from(bucket: ${bucket})
+      ${fn === 'count' ? createCountRange(range) : createRange(config)}
+      ${createMeasurementFilter(measurement)}
+      ${createWhereFilter(where)}
+      ${createFieldFilter(field)}
+      ${fn === 'count' ? createWindowCount(range) : createReducer(fn)}
   `
 
   try {
-    const rows = await queryApi.collectRows<InfluxKey>(query)
-    return rows.map(r => r._value).filter(c => !c.startsWith('_'))
+    return await getFluxQueryApi(config.conn).collectRows<InfluxRow>(query)
   } catch (err) {
     if (err instanceof HttpError && err.statusCode === 404) {
       return null
@@ -125,24 +228,27 @@ const getTagValues = async (bucket: string, measurement: string, tag: string, co
   }
 }
 
-const getLastValue = async (
+// Every statistic is a row with the statistic name in "_stat" column
+const getStats = async (
   bucket: string,
   measurement: string,
   field: string,
   where: InfluxTagFilter[],
   config: InfluxTagParams
 ): Promise<InfluxRow[] | null> => {
-  const query = `
-    from(bucket: "${bucket}")
+  const stats = INFLUX_STATS.map(stat => flux`data ${createReducer(stat)} |> toFloat() |> set(key: "_stat", value: ${stat})`)
+  const query = flux`
+    data = from(bucket: ${bucket})
       ${createRange(config)}
-      |> filter(fn: (r) => r["_measurement"] == "${measurement}")
-      |> filter(fn: (r) => ${createWhereFilter(where)})
-      |> filter(fn: (r) => r["_field"] == "${field}")
-      |> last()
+      ${createMeasurementFilter(measurement)}
+      ${createWhereFilter(where)}
+      ${createFieldFilter(field)}
+
+    union(tables: [${stats.reduce((acc, q) => flux`${acc}, ${q}`)}])
   `
 
   try {
-    return await queryApi.collectRows<InfluxRow>(query)
+    return await getFluxQueryApi(config.conn).collectRows<InfluxRow>(query)
   } catch (err) {
     if (err instanceof HttpError && err.statusCode === 404) {
       return null
@@ -152,25 +258,26 @@ const getLastValue = async (
   }
 }
 
-const getValuesFromTimespan = async (
+// Change of the values within the query range (difference, percentage or per minute derivative)
+const getWindowChange = async (
   bucket: string,
   measurement: string,
   field: string,
   where: InfluxTagFilter[],
-  config: InfluxAggregateParams
+  change: InfluxChange,
+  config: InfluxTagParams
 ): Promise<InfluxRow[] | null> => {
-  const { aggregate, raw } = config
-  const query = `
-    from(bucket: "${bucket}")
+  const query = flux`
+    from(bucket: ${bucket})
       ${createRange(config)}
-      |> filter(fn: (r) => r["_measurement"] == "${measurement}")
-      |> filter(fn: (r) => ${createWhereFilter(where)})
-      |> filter(fn: (r) => r["_field"] == "${field}")
-      ${raw ? '' : `|> aggregateWindow(every: ${aggregate ?? '1h'}, fn: mean, createEmpty: false)`}
+      ${createMeasurementFilter(measurement)}
+      ${createWhereFilter(where)}
+      ${createFieldFilter(field)}
+      ${createChange(change)}
   `
 
   try {
-    return await queryApi.collectRows<InfluxRow>(query)
+    return await getFluxQueryApi(config.conn).collectRows<InfluxRow>(query)
   } catch (err) {
     if (err instanceof HttpError && err.statusCode === 404) {
       return null
@@ -180,12 +287,112 @@ const getValuesFromTimespan = async (
   }
 }
 
+// Raw Flux script, the query is cancelled after the timeout or the row limit
+const queryFlux = (script: string, conn?: string): Promise<InfluxFluxResult> => new Promise((resolve, reject) => {
+  const rows: InfluxRow[] = []
+  let cancellable: Cancellable | undefined
+  const timeout = setTimeout(() => {
+    cancellable?.cancel()
+    reject(new Error(`Query timed out after ${INFLUX_FLUX_TIMEOUT_MS} ms`))
+  }, INFLUX_FLUX_TIMEOUT_MS)
+
+  getFluxQueryApi(conn).queryRows(script, {
+    useCancellable: c => {
+      cancellable = c
+    },
+    next: (values, tableMeta) => {
+      if (rows.length >= INFLUX_FLUX_MAX_ROWS) {
+        clearTimeout(timeout)
+        cancellable?.cancel()
+        resolve({ rows, truncated: true })
+        return
+      }
+
+      rows.push(toInfluxRow(values, tableMeta))
+    },
+    error: err => {
+      clearTimeout(timeout)
+      reject(err)
+    },
+    complete: () => {
+      clearTimeout(timeout)
+      resolve({ rows, truncated: false })
+    }
+  })
+})
+
+// Returns false if the bucket was not found
+const writePoint = async (bucket: string, input: InfluxPoint, conn?: string): Promise<boolean> => {
+  const point = new Point(input.measurement)
+  Object.entries(input.tags).forEach(([k, v]) => point.tag(k, v))
+  input.fields.forEach(({ field, type, value }) => {
+    switch (type) {
+      case 'float':
+        return point.floatField(field, value)
+      case 'int':
+        return point.intField(field, value)
+      case 'boolean':
+        return point.booleanField(field, value)
+      case 'string':
+        return point.stringField(field, value)
+    }
+  })
+
+  const { client, org } = getInfluxConnection(conn)
+  const writeApi = client.getWriteApi(org, bucket, 'ns', { maxRetries: 0 })
+  try {
+    writeApi.writePoint(point)
+    await writeApi.close()
+    return true
+  } catch (err) {
+    if (err instanceof HttpError && err.statusCode === 404) {
+      return false
+    }
+
+    throw err
+  }
+}
+
+// INTERNAL
+
+// Flux rows have the InfluxRow columns, the same as the rows of "collectRows<InfluxRow>"
+const toInfluxRow = (values: string[], tableMeta: FluxTableMetaData): InfluxRow => {
+  const { _measurement, _field, _value, _time, result, table, ...tags } = tableMeta.toObject(values)
+  return { ...tags, _measurement, _field, _value, _time, result, table }
+}
+
+const getBackend = (conn?: string): InfluxBackend => {
+  const connection = getInfluxConnection(conn)
+  const backend = backends.get(connection.name) ?? createBackend(connection)
+  backends.set(connection.name, backend)
+  return backend
+}
+
+// Rest of the queries are written in Flux, the commands reject InfluxQL and SQL connections before querying
+const getFluxQueryApi = (conn?: string): QueryApi => {
+  const { name, backend, queryApi } = getInfluxConnection(conn)
+  if (backend !== 'flux') {
+    throw new Error(`Query is not supported by the ${backend} connection "${name}"`)
+  }
+
+  return queryApi
+}
+
 export default {
+  getUnavailableConnections,
   getBuckets,
   getMeasurements,
   getFields,
   getTags,
   getTagValues,
   getLastValue,
-  getValuesFromTimespan
+  getLastValueOfFields,
+  getValuesFromTimespan,
+  iterateValuesFromTimespan,
+  getEvents,
+  getWindowValue,
+  getWindowChange,
+  getStats,
+  queryFlux,
+  writePoint
 }
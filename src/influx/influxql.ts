@@ -0,0 +1,237 @@
+import { InfluxDB } from '@influxdata/influxdb-client'
+import { InfluxBackend, InfluxRecord, InfluxTableIndex, toInfluxRows } from './backend'
+import {
+  InfluxAggregateParams,
+  InfluxBucket,
+  InfluxFieldSelector,
+  InfluxMeasurement,
+  InfluxReducer,
+  InfluxReducerValidator,
+  InfluxRow,
+  InfluxTagFilter,
+  InfluxTagParams,
+  InfluxTimespanParams
+} from './model'
+import { addInfluxDuration, createAbsoluteRange, DEFAULT_AGGREGATE, DEFAULT_REDUCER, isPercentile } from './query'
+import { toArrayOrUndefined } from '../util'
+
+// InfluxDB 1.x, bucket is "<database>" or "<database>/<retention policy>" like in the v2 compatibility API.
+// Schema queries ("SHOW ...") don't support time ranges, so the timespan is ignored for them.
+
+type InfluxQLSeries = {
+  readonly name: string
+  readonly tags?: Record<string, string>
+  readonly columns: string[]
+  readonly values: (string | number | boolean | null)[][]
+}
+
+type InfluxQLResponse = {
+  readonly results?: { readonly series?: InfluxQLSeries[], readonly error?: string }[]
+  readonly error?: string
+}
+
+export const createInfluxQLBackend = (client: InfluxDB): InfluxBackend => ({
+  getBuckets: () => getBuckets(client),
+  getMeasurements: (...args) => getMeasurements(client, ...args),
+  getFields: (...args) => getFields(client, ...args),
+  getTags: (...args) => getTags(client, ...args),
+  getTagValues: (...args) => getTagValues(client, ...args),
+  getLastValue: (...args) => getLastValue(client, ...args),
+  getValuesFromTimespan: (...args) => getValuesFromTimespan(client, ...args)
+})
+
+const getBuckets = async (client: InfluxDB): Promise<InfluxBucket[]> => {
+  const series = await query(client, null, 'SHOW DATABASES')
+  return toValues(series ?? []).map(name => ({
+    id: name,
+    name,
+    table: 0,
+    retentionPolicy: '',
+    retentionPeriod: 0,
+    result: '_result',
+    organizationID: ''
+  }))
+}
+
+const getMeasurements = async (
+  client: InfluxDB,
+  bucket: string,
+  _config: InfluxTimespanParams
+): Promise<InfluxMeasurement[] | null> => {
+  const series = await query(client, bucket, 'SHOW MEASUREMENTS')
+  return series ? toValues(series).map(m => ({ _measurement: m })) : null
+}
+
+const getFields = async (
+  client: InfluxDB,
+  bucket: string,
+  measurement: string,
+  _config: InfluxTimespanParams
+): Promise<string[] | null> => {
+  const series = await query(client, bucket, `SHOW FIELD KEYS FROM ${toIdentifier(measurement)}`)
+  return series ? toValues(series) : null
+}
+
+const getTags = async (
+  client: InfluxDB,
+  bucket: string,
+  measurement: string,
+  _config: InfluxTimespanParams
+): Promise<string[] | null> => {
+  const series = await query(client, bucket, `SHOW TAG KEYS FROM ${toIdentifier(measurement)}`)
+  return series ? toValues(series) : null
+}
+
+const getTagValues = async (
+  client: InfluxDB,
+  bucket: string,
+  measurement: string,
+  tag: string,
+  _config: InfluxTimespanParams
+): Promise<string[] | null> => {
+  const series = await query(client, bucket, `SHOW TAG VALUES FROM ${toIdentifier(measurement)} WITH KEY = ${toIdentifier(tag)}`)
+  return series ? toValues(series, 'value') : null
+}
+
+const getLastValue = async (
+  client: InfluxDB,
+  bucket: string,
+  measurement: string,
+  field: string,
+  where: InfluxTagFilter[],
+  config: InfluxTagParams
+): Promise<InfluxRow[] | null> => {
+  const series = await query(client, bucket, `
+    SELECT last(${toIdentifier(field)}) AS ${toIdentifier(field)}
+    FROM ${toIdentifier(measurement)}
+    WHERE ${createTimeCondition(config)} AND ${createWhereCondition(where)}
+    GROUP BY *
+  `)
+
+  return series ? toInfluxRows(toRecords(series), measurement, [field]) : null
+}
+
+const getValuesFromTimespan = async (
+  client: InfluxDB,
+  bucket: string,
+  fields: InfluxFieldSelector[],
+  where: InfluxTagFilter[],
+  config: InfluxAggregateParams,
+  shift?: string
+): Promise<InfluxRow[] | null> => {
+  const { aggregate, fn, raw } = config
+  const every = aggregate ?? DEFAULT_AGGREGATE
+  const tables: InfluxTableIndex = new Map()
+  const rows: InfluxRow[] = []
+  for (const measurement of new Set(fields.map(f => f.measurement))) {
+    const measurementFields = fields.filter(f => f.measurement === measurement).map(f => f.field)
+    const columns = measurementFields.map(f => raw
+      ? toIdentifier(f)
+      : `${createReducer(fn ?? DEFAULT_REDUCER, f)} AS ${toIdentifier(f)}`
+    )
+
+    const series = await query(client, bucket, `
+      SELECT ${columns.join(', ')}
+      FROM ${toIdentifier(measurement)}
+      WHERE ${createTimeCondition(config, shift)} AND ${createWhereCondition(where)}
+      GROUP BY ${raw ? '*' : `time(${every}), * fill(none)`}
+    `)
+
+    if (!series) {
+      return null
+    }
+
+    // Windows are labeled with the stop time like in Flux, shifted values are moved back to the original range
+    const records = toRecords(series).map(r => {
+      const time = raw ? `${r.time}` : addInfluxDuration(`${r.time}`, every)
+      return { ...r, time: shift ? addInfluxDuration(time, shift) : time }
+    })
+
+    rows.push(...toInfluxRows(records, measurement, measurementFields, tables))
+  }
+
+  return rows.sort((a, b) => a.table - b.table)
+}
+
+// INTERNAL
+
+// Returns null if the database was not found
+const query = async (client: InfluxDB, bucket: string | null, q: string): Promise<InfluxQLSeries[] | null> => {
+  const [db, rp] = bucket?.split('/') ?? []
+  const params = new URLSearchParams({ q, ...(db ? { db } : {}), ...(rp ? { rp } : {}) })
+  const response: InfluxQLResponse = await client.transport.request(`/query?${params}`, '', { method: 'GET' })
+  const error = response.error ?? response.results?.find(r => r.error)?.error
+  if (error?.startsWith('database not found')) {
+    return null
+  }
+
+  if (error) {
+    throw new Error(error)
+  }
+
+  return response.results?.flatMap(r => r.series ?? []) ?? []
+}
+
+const toValues = (series: InfluxQLSeries[], column?: string): string[] => [...new Set(series.flatMap(s => {
+  const i = column ? s.columns.indexOf(column) : 0
+  return s.values.map(v => `${v[i]}`)
+}))]
+
+const toRecords = (series: InfluxQLSeries[]): InfluxRecord[] => series.flatMap(s => s.values.map(values => ({
+  ...s.tags,
+  ...Object.fromEntries(s.columns.map((c, i) => [c, values[i]]))
+})))
+
+const toIdentifier = (name: string): string => `"${name.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+
+const toStringLiteral = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`
+
+const toRegexLiteral = (regex: string): string => `/${regex.replace(/\//g, '\\/')}/`
+
+const createTimeCondition = (config: InfluxTimespanParams, shift?: string): string => {
+  const { start, stop } = createAbsoluteRange(config, shift)
+  return `time >= ${toStringLiteral(start)} AND time <= ${toStringLiteral(stop)}`
+}
+
+// Example: 'p95' -> 'percentile("field", 95)'
+const createReducer = (fn: InfluxReducer, field: string): string => {
+  const reducer = InfluxReducerValidator.parse(fn)
+  return isPercentile(reducer)
+    ? `percentile(${toIdentifier(field)}, ${Number(reducer.slice(1))})`
+    : `${reducer}(${toIdentifier(field)})`
+}
+
+const createWhereCondition = (where: InfluxTagFilter[]): string => joinConditions(where.map(createTagCondition), 'AND')
+
+// Missing tags are empty strings in InfluxQL
+const createTagCondition = (filter: InfluxTagFilter): string => {
+  if ('or' in filter) {
+    return joinConditions(filter.or.map(group => joinConditions(group.map(createTagCondition), 'AND')), 'OR')
+  }
+
+  const tag = toIdentifier(filter.tag)
+  const values = toArrayOrUndefined(filter.value) ?? []
+  switch (filter.operator ?? '=') {
+    case '=':
+      return joinConditions(values.map(v => `${tag} = ${toStringLiteral(v)}`), 'OR')
+    case '!=':
+      return joinConditions(values.map(v => `${tag} != ${toStringLiteral(v)}`), 'AND')
+    case '=~':
+      return `${tag} =~ ${toRegexLiteral(values[0])}`
+    case '!~':
+      return `${tag} !~ ${toRegexLiteral(values[0])}`
+    case 'exists':
+      return `${tag} != ''`
+    case '!exists':
+      return `${tag} = ''`
+  }
+}
+
+// Empty "AND" matches everything, empty "OR" matches nothing
+const joinConditions = (conditions: string[], operator: 'AND' | 'OR'): string => {
+  if (conditions.length === 0) {
+    return operator === 'AND' ? 'true' : 'false'
+  }
+
+  return conditions.length > 1 ? `(${conditions.join(` ${operator} `)})` : conditions[0]
+}
@@ -1,6 +1,5 @@
 import EventEmitter from 'events'
-import { InfluxRow, InfluxTagFilter, InfluxTagParams } from './model'
-import influx from '.'
+import { InfluxRow } from './model'
 
 export declare interface InfluxIntervalReader {
   on(event: 'data', listener: (data: InfluxIntervalReadData) => void | Promise<void>): this
@@ -9,10 +8,7 @@ export declare interface InfluxIntervalReader {
 export type InfluxIntervalRead = {
   readonly id: string
   readonly intervalMs: number
-  readonly bucket: string
-  readonly measurement: string
-  readonly field: string
-  readonly where: InfluxTagFilter[]
+  readonly read: () => Promise<InfluxRow[] | null>
 }
 
 export type InfluxIntervalReadData = {
@@ -28,12 +24,10 @@ export class InfluxIntervalReader extends EventEmitter {
   }
 
   create(params: InfluxIntervalRead) {
-    const { id, intervalMs, bucket, measurement, field, where } = params
-    const config: InfluxTagParams = { start: '-1h' }
-
+    const { id, intervalMs, read } = params
     const interval = setInterval(async () => {
       try {
-        const rows = await influx.getLastValue(bucket, measurement, field, where, config)
+        const rows = await read()
         if (rows) {
           const data: InfluxIntervalReadData = { id, rows }
           this.emit('data', data)
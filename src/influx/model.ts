@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { InfluxConnectionNameValidator } from './connection'
+import { stripQuotes } from '../util'
 
 export type InfluxBucket = {
   readonly id: string
@@ -33,12 +35,69 @@ export type InfluxRow = InfluxMeasurement & InfluxField & InfluxValue & {
   readonly [key: string]: string | number
 }
 
-export type InfluxTagFilter = {
+export type InfluxFluxResult = {
+  readonly rows: InfluxRow[]
+  readonly truncated: boolean // Row limit was reached
+}
+
+export type InfluxWriteFieldType = 'float' | 'int' | 'boolean' | 'string'
+
+export type InfluxWriteField = {
+  readonly field: string
+  readonly type: InfluxWriteFieldType
+  readonly value: number | boolean | string
+}
+
+export type InfluxPoint = {
+  readonly measurement: string
+  readonly tags: Record<string, string>
+  readonly fields: InfluxWriteField[]
+}
+
+export type InfluxFieldSelector = {
+  readonly measurement: string
+  readonly field: string
+}
+
+export type InfluxTagOperator = '=' | '!=' | '=~' | '!~' | 'exists' | '!exists'
+
+export type InfluxTagCondition = {
   readonly tag: string
-  readonly value: string
+  readonly operator?: InfluxTagOperator // Default: '='
+  readonly value?: string | string[] // List of values for '=' and '!=', regex for '=~' and '!~'
+}
+
+export type InfluxTagGroup = {
+  readonly or: InfluxTagFilter[][] // Filters inside a group are joined with "and"
 }
 
-export type InfluxTimespanParams = {
+export type InfluxTagFilter = InfluxTagCondition | InfluxTagGroup
+
+export type InfluxPercentile = `p${number}` // Example: 'p95'
+
+export type InfluxReducer =
+  | 'mean'
+  | 'median'
+  | 'min'
+  | 'max'
+  | 'sum'
+  | 'count'
+  | 'spread'
+  | 'stddev'
+  | 'first'
+  | 'last'
+  | InfluxPercentile
+
+// Statistics of "/stats", every statistic is a reducer
+export const INFLUX_STATS: InfluxReducer[] = ['min', 'max', 'mean', 'median', 'p95', 'stddev', 'count', 'first', 'last']
+
+export type InfluxChange = 'difference' | 'percent' | 'derivative'
+
+export type InfluxConnectionParams = {
+  readonly conn?: string // Connection name, undefined for the default connection
+}
+
+export type InfluxTimespanParams = InfluxConnectionParams & {
   readonly start?: string // InfluxDB time ('7d', '1h', '5m') or ISO date ('2023-02-028T19:00:00Z')
   readonly end?: string // InfluxDB time ('7d', '1h', '5m') or ISO date ('2023-02-028T19:00:00Z')
 }
@@ -47,23 +106,237 @@ export type InfluxTagParams = InfluxTimespanParams & {
   readonly tags?: string | string[]
 }
 
-export type InfluxAggregateParams = InfluxTagParams & {
+export type InfluxReduceParams = InfluxTagParams & {
+  readonly fn?: InfluxReducer
+}
+
+export type InfluxAggregateParams = InfluxReduceParams & {
   readonly aggregate?: string // Example: '1h' or '10m
   readonly raw?: boolean
 }
 
-export const InfluxRelativeTimeValidator = z.string().regex(/^-?[0-9]+[d|h|m]$/)
+export const InfluxRelativeTimeValidator = z.string().regex(/^-?[0-9]+[dhm]$/)
+
+export const InfluxTimeValidator = InfluxRelativeTimeValidator.or(z.string().datetime({ precision: 0 }))
+
+export const InfluxDurationValidator = z.string().regex(/^[0-9]+[dhm]$/)
+
+export const InfluxReducerValidator: z.ZodType<InfluxReducer> = z.union([
+  z.literal('mean'),
+  z.literal('median'),
+  z.literal('min'),
+  z.literal('max'),
+  z.literal('sum'),
+  z.literal('count'),
+  z.literal('spread'),
+  z.literal('stddev'),
+  z.literal('first'),
+  z.literal('last'),
+  z.custom<InfluxPercentile>(v => typeof v === 'string' && /^p[1-9][0-9]?$/.test(v), 'Invalid percentile')
+])
+
+export const InfluxChangeValidator: z.ZodType<InfluxChange> = z.union([
+  z.literal('difference'),
+  z.literal('percent'),
+  z.literal('derivative')
+])
+
+export const InfluxFieldSelectorValidator: z.ZodType<InfluxFieldSelector> = z.object({
+  measurement: z.string().min(1),
+  field: z.string().min(1)
+})
+
+export const InfluxTagOperatorValidator: z.ZodType<InfluxTagOperator> = z.union([
+  z.literal('='),
+  z.literal('!='),
+  z.literal('=~'),
+  z.literal('!~'),
+  z.literal('exists'),
+  z.literal('!exists')
+])
+
+export const InfluxTagConditionValidator: z.ZodType<InfluxTagCondition> = z.object({
+  tag: z.string().min(1),
+  operator: InfluxTagOperatorValidator.optional(),
+  value: z.string().or(z.string().array().nonempty()).optional()
+})
+
+export const InfluxTagFilterValidator: z.ZodType<InfluxTagFilter> = z.lazy(() => InfluxTagConditionValidator.or(
+  z.object({ or: InfluxTagFilterValidator.array().array() })
+))
 
-export const InfluxTimespanParamsValidator: z.ZodType<InfluxTimespanParams> = z.object({
-  start: InfluxRelativeTimeValidator.or(z.string().datetime({ precision: 0 })).optional(),
-  end: InfluxRelativeTimeValidator.or(z.string().datetime({ precision: 0 })).optional()
+// Example: 'host=~/^web-/,region=fi|se||!exists(region)'
+export const InfluxWhereValidator: z.ZodType<InfluxTagFilter[], z.ZodTypeDef, string> = z
+  .string()
+  .transform((str, ctx) => {
+    if (str.trim() === '*') {
+      return []
+    }
+
+    const groups: InfluxTagFilter[][] = []
+    for (const groupStr of splitWhere(str, '||')) {
+      const group: InfluxTagFilter[] = []
+      for (const conditionStr of splitWhere(groupStr, ',')) {
+        const condition = parseTagCondition(conditionStr.trim())
+        if (!condition) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid tag filter: "${conditionStr}"` })
+          return z.NEVER
+        }
+
+        group.push(condition)
+      }
+
+      groups.push(group)
+    }
+
+    return groups.length === 1 ? groups[0] : [{ or: groups }]
+  })
+
+// Example: 'room=office,floor=2' or '*' for no tags
+export const InfluxTagSetValidator: z.ZodType<Record<string, string>, z.ZodTypeDef, string> = z
+  .string()
+  .transform((str, ctx) => {
+    const tags: Record<string, string> = {}
+    if (str.trim() === '*') {
+      return tags
+    }
+
+    for (const tagStr of str.split(',')) {
+      const [tag, value, ...rest] = tagStr.split('=')
+      if (!tag || !value || rest.length > 0 || tag.startsWith('_')) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid tag: "${tagStr}"` })
+        return z.NEVER
+      }
+
+      tags[tag] = value
+    }
+
+    return tags
+  })
+
+// Line protocol field values, example: 'temperature=21.5,count=3i,ok=true,note="Hello, world"'
+export const InfluxFieldSetValidator: z.ZodType<InfluxWriteField[], z.ZodTypeDef, string> = z
+  .string()
+  .transform((str, ctx) => {
+    const fields: InfluxWriteField[] = []
+    for (const fieldStr of str.match(/(?:[^,"]+|"[^"]*")+/g) ?? []) {
+      const field = parseWriteField(fieldStr)
+      if (!field) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid field: "${fieldStr}"` })
+        return z.NEVER
+      }
+
+      fields.push(field)
+    }
+
+    if (fields.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'At least one field is required' })
+      return z.NEVER
+    }
+
+    return fields
+  })
+
+export const InfluxConnectionParamsValidator: z.ZodType<InfluxConnectionParams> = z.object({
+  conn: InfluxConnectionNameValidator.optional()
 })
 
+export const InfluxTimespanParamsValidator: z.ZodType<InfluxTimespanParams> = InfluxConnectionParamsValidator.and(z.object({
+  start: InfluxTimeValidator.optional(),
+  end: InfluxTimeValidator.optional()
+}))
+
 export const InfluxTagParamsValidator: z.ZodType<InfluxTagParams> = InfluxTimespanParamsValidator.and(z.object({
   tags: z.string().or(z.string().array()).optional()
 }))
 
-export const InfluxAggregateParamsValidator: z.ZodType<InfluxAggregateParams> = InfluxTagParamsValidator.and(z.object({
-  aggregate: InfluxRelativeTimeValidator.optional(),
+export const InfluxReduceParamsValidator: z.ZodType<InfluxReduceParams> = InfluxTagParamsValidator.and(z.object({
+  fn: InfluxReducerValidator.optional()
+}))
+
+export const InfluxAggregateParamsValidator: z.ZodType<InfluxAggregateParams> = InfluxReduceParamsValidator.and(z.object({
+  aggregate: InfluxDurationValidator.optional(),
   raw: z.coerce.boolean().optional()
 }))
+
+// Splits the string by the separator, but not inside regex literals ('=~/.../')
+const splitWhere = (str: string, separator: string): string[] => {
+  const parts: string[] = []
+  let current = ''
+  let inRegex = false
+  for (let i = 0; i < str.length; i++) {
+    const c = str[i]
+    if (inRegex) {
+      if (c === '\\' && i + 1 < str.length) {
+        current += c + str[++i]
+        continue
+      }
+
+      inRegex = c !== '/'
+      current += c
+    } else if (c === '/' && str[i - 1] === '~') {
+      inRegex = true
+      current += c
+    } else if (str.startsWith(separator, i)) {
+      parts.push(current)
+      current = ''
+      i += separator.length - 1
+    } else {
+      current += c
+    }
+  }
+
+  return parts.concat(current)
+}
+
+const parseTagCondition = (str: string): InfluxTagCondition | null => {
+  const regexMatch = str.match(/^([^=!~\s]+)(=~|!~)\/(.*)\/$/)
+  if (regexMatch) {
+    const [, tag, operator, value] = regexMatch
+    try {
+      new RegExp(value)
+    } catch {
+      return null
+    }
+
+    return { tag, operator: operator as InfluxTagOperator, value }
+  }
+
+  const valueMatch = str.match(/^([^=!~\s]+)(!=|=)(.+)$/)
+  if (valueMatch) {
+    const [, tag, operator, valueStr] = valueMatch
+    const values = valueStr.split('|').map(stripQuotes)
+    if (values.some(v => v.length === 0)) {
+      return null
+    }
+
+    return { tag, operator: operator as InfluxTagOperator, value: values.length === 1 ? values[0] : values }
+  }
+
+  // Explicit token, so that typos like "host:a" are not taken as tag names
+  const existsMatch = str.match(/^(!?)exists\(([^=!~\s|()]+)\)$/)
+  if (existsMatch) {
+    const [, not, tag] = existsMatch
+    return { tag, operator: not ? '!exists' : 'exists' }
+  }
+
+  return null
+}
+
+const parseWriteField = (str: string): InfluxWriteField | null => {
+  const i = str.indexOf('=')
+  const field = str.slice(0, i)
+  const value = str.slice(i + 1)
+  if (i < 1 || !value) {
+    return null
+  } else if (/^".*"$/.test(value)) {
+    return { field, type: 'string', value: value.slice(1, -1) }
+  } else if (value === 'true' || value === 'false') {
+    return { field, type: 'boolean', value: value === 'true' }
+  } else if (/^-?[0-9]+i$/.test(value)) {
+    return { field, type: 'int', value: Number(value.slice(0, -1)) }
+  }
+
+  const float = Number(value)
+  return Number.isFinite(float) ? { field, type: 'float', value: float } : null
+}
@@ -0,0 +1,231 @@
+import {
+  flux,
+  fluxDateTime,
+  fluxDuration,
+  fluxExpression,
+  fluxFloat,
+  fluxRegExp,
+  ParameterizedQuery
+} from '@influxdata/influxdb-client'
+import {
+  InfluxAggregateParams,
+  InfluxChange,
+  InfluxChangeValidator,
+  InfluxDurationValidator,
+  InfluxFieldSelector,
+  InfluxPercentile,
+  InfluxReducer,
+  InfluxReducerValidator,
+  InfluxRelativeTimeValidator,
+  InfluxTagFilter,
+  InfluxTimespanParams,
+  InfluxTimeValidator
+} from './model'
+import { toArrayOrUndefined } from '../util'
+
+// All query parts are built with the "flux" template, which escapes the interpolated values.
+// Plain strings become Flux string literals, so Flux syntax must be passed as "ParameterizedQuery".
+
+const DEFAULT_START = '-7d'
+const COUNT_LOOKBACK_WINDOWS = 10 // Series that reported within these windows are expected to report
+export const DEFAULT_AGGREGATE = '1h'
+export const DEFAULT_REDUCER = 'mean'
+
+// Aggregates drop "_time", selectors keep the time of the selected row
+const INFLUX_SELECTORS: Set<InfluxReducer> = new Set(['min', 'max', 'first', 'last'])
+
+export const EMPTY_QUERY = flux``
+
+export const toFluxDuration = (duration: string) => fluxDuration(InfluxRelativeTimeValidator.parse(duration))
+
+export const toFluxTime = (time: string) => InfluxRelativeTimeValidator.safeParse(time).success
+  ? fluxDuration(time)
+  : fluxDateTime(InfluxTimeValidator.parse(time))
+
+// Shifted range is resolved to absolute times, since relative times are relative to now
+export const createRange = (config: InfluxTimespanParams, shift?: string): ParameterizedQuery => {
+  if (shift) {
+    const now = new Date()
+    const start = fluxDateTime(toShiftedTime(config.start ?? DEFAULT_START, shift, now))
+    const stop = fluxDateTime(toShiftedTime(config.end ?? '0m', shift, now))
+    return flux`|> range(start: ${start}, stop: ${stop})`
+  }
+
+  const start = toFluxTime(config.start ?? DEFAULT_START)
+  return config.end
+    ? flux`|> range(start: ${start}, stop: ${toFluxTime(config.end)})`
+    : flux`|> range(start: ${start})`
+}
+
+// Backends without Flux get the range as absolute UTC times
+export const createAbsoluteRange = (config: InfluxTimespanParams, shift?: string): { start: string, stop: string } => {
+  const now = new Date()
+  return {
+    start: toShiftedTime(config.start ?? DEFAULT_START, shift ?? '0m', now),
+    stop: toShiftedTime(config.end ?? '0m', shift ?? '0m', now)
+  }
+}
+
+// Range of the counted window and the windows before it, see "createWindowCount"
+export const createCountRange = (range: { start: string, stop: string }): ParameterizedQuery => {
+  const windowMs = Date.parse(range.stop) - Date.parse(range.start)
+  const start = new Date(Date.parse(range.start) - COUNT_LOOKBACK_WINDOWS * windowMs).toISOString()
+  return flux`|> range(start: ${fluxDateTime(start)}, stop: ${fluxDateTime(range.stop)})`
+}
+
+// "count()" drops the series without values, so the values before the window are counted as zeros instead.
+// Series that reported during the previous windows but not in the counted window get a zero count.
+export const createWindowCount = (range: { start: string, stop: string }): ParameterizedQuery => flux`
+  |> map(fn: (r) => ({ r with _value: if r._time >= ${fluxDateTime(range.start)} then 1 else 0 }))
+  |> sum()
+  |> duplicate(column: "_stop", as: "_time")
+`
+
+// Example: ('2023-02-28T19:00:00Z', '1h') -> '2023-02-28T20:00:00.000Z'
+export const addInfluxDuration = (time: string, duration: string): string => (
+  new Date(new Date(time).getTime() + toMilliseconds(InfluxRelativeTimeValidator.parse(duration))).toISOString()
+)
+
+const toMilliseconds = (duration: string): number => {
+  const amount = Number(duration.slice(0, -1))
+  switch (duration.at(-1)) {
+    case 'd':
+      return amount * 24 * 60 * 60 * 1000
+    case 'h':
+      return amount * 60 * 60 * 1000
+    default:
+      return amount * 60 * 1000
+  }
+}
+
+const toShiftedTime = (time: string, shift: string, now: Date): string => {
+  const date = InfluxRelativeTimeValidator.safeParse(time).success
+    ? new Date(now.getTime() + toMilliseconds(time))
+    : new Date(InfluxTimeValidator.parse(time))
+
+  return new Date(date.getTime() - toMilliseconds(InfluxDurationValidator.parse(shift))).toISOString()
+}
+
+// Moves the shifted values back to the original range
+export const createTimeShift = (shift: string): ParameterizedQuery => (
+  flux`|> timeShift(duration: ${toFluxDuration(InfluxDurationValidator.parse(shift))})`
+)
+
+export const createMeasurementFilter = (measurement: string): ParameterizedQuery => (
+  flux`|> filter(fn: (r) => r["_measurement"] == ${measurement})`
+)
+
+export const createFieldFilter = (field: string): ParameterizedQuery => (
+  flux`|> filter(fn: (r) => r["_field"] == ${field})`
+)
+
+export const createFieldSelectorFilter = (fields: InfluxFieldSelector[]): ParameterizedQuery => {
+  const predicates = fields.map(f => flux`(r["_measurement"] == ${f.measurement} and r["_field"] == ${f.field})`)
+  return flux`|> filter(fn: (r) => ${joinPredicates(predicates, 'or')})`
+}
+
+export const createWhereFilter = (where: InfluxTagFilter[]): ParameterizedQuery => (
+  flux`|> filter(fn: (r) => ${joinPredicates(where.map(createTagPredicate), 'and')})`
+)
+
+const createTagPredicate = (filter: InfluxTagFilter): ParameterizedQuery => {
+  if ('or' in filter) {
+    return joinPredicates(filter.or.map(group => joinPredicates(group.map(createTagPredicate), 'and')), 'or')
+  }
+
+  const { tag, operator } = filter
+  const values = toArrayOrUndefined(filter.value) ?? []
+  switch (operator ?? '=') {
+    case '=':
+      return joinPredicates(values.map(v => flux`r[${tag}] == ${v}`), 'or')
+    case '!=':
+      return joinPredicates(values.map(v => flux`r[${tag}] != ${v}`), 'and')
+    case '=~':
+      return flux`r[${tag}] =~ ${fluxRegExp(values[0])}`
+    case '!~':
+      return flux`r[${tag}] !~ ${fluxRegExp(values[0])}`
+    case 'exists':
+      return flux`exists r[${tag}]`
+    case '!exists':
+      return flux`not exists r[${tag}]`
+  }
+}
+
+// Empty "and" matches everything, empty "or" matches nothing
+const joinPredicates = (predicates: ParameterizedQuery[], operator: 'and' | 'or'): ParameterizedQuery => {
+  if (predicates.length === 0) {
+    return operator === 'and' ? flux`true` : flux`false`
+  }
+
+  const joined = predicates.reduce((acc, p) => operator === 'and' ? flux`${acc} and ${p}` : flux`${acc} or ${p}`)
+  return predicates.length > 1 ? flux`(${joined})` : joined
+}
+
+export const isPercentile = (fn: InfluxReducer): fn is InfluxPercentile => fn.startsWith('p')
+
+// Example: 'p95' -> 0.95
+const toQuantile = (fn: InfluxPercentile) => fluxFloat(Number(fn.slice(1)) / 100)
+
+export const createAggregateWindow = (every?: string, fn?: InfluxReducer): ParameterizedQuery => {
+  const duration = toFluxDuration(every ?? DEFAULT_AGGREGATE)
+  const reducer = InfluxReducerValidator.parse(fn ?? DEFAULT_REDUCER)
+  const func = isPercentile(reducer)
+    ? flux`(column, tables=<-) => tables |> quantile(q: ${toQuantile(reducer)}, column: column)`
+    : fluxExpression(reducer)
+
+  return flux`|> aggregateWindow(every: ${duration}, fn: ${func}, createEmpty: false)`
+}
+
+export const createReducer = (fn: InfluxReducer): ParameterizedQuery => {
+  const reducer = InfluxReducerValidator.parse(fn)
+  if (isPercentile(reducer)) {
+    return flux`|> quantile(q: ${toQuantile(reducer)}) |> duplicate(column: "_stop", as: "_time")`
+  }
+
+  return INFLUX_SELECTORS.has(reducer)
+    ? flux`|> ${fluxExpression(reducer)}()`
+    : flux`|> ${fluxExpression(reducer)}() |> duplicate(column: "_stop", as: "_time")`
+}
+
+export const createChange = (change: InfluxChange): ParameterizedQuery => {
+  if (InfluxChangeValidator.parse(change) === 'derivative') {
+    return flux`|> derivative(unit: 1m, nonNegative: false) |> mean() |> duplicate(column: "_stop", as: "_time")`
+  }
+
+  const value = change === 'percent'
+    ? flux`(r.last - r.first) / r.first * 100.0`
+    : flux`r.last - r.first`
+
+  return flux`
+    |> reduce(
+      identity: {first: 0.0, last: 0.0, n: 0},
+      fn: (r, accumulator) => ({
+        first: if accumulator.n == 0 then float(v: r._value) else accumulator.first,
+        last: float(v: r._value),
+        n: accumulator.n + 1
+      })
+    )
+    ${change === 'percent' ? flux`|> filter(fn: (r) => r.first != 0.0)` : EMPTY_QUERY}
+    |> map(fn: (r) => ({ r with _value: ${value} }))
+    |> duplicate(column: "_stop", as: "_time")
+    |> drop(columns: ["first", "last", "n"])
+  `
+}
+
+export const createTimespanQuery = (
+  bucket: string,
+  fields: InfluxFieldSelector[],
+  where: InfluxTagFilter[],
+  config: InfluxAggregateParams,
+  shift?: string
+): ParameterizedQuery => {
+  const { aggregate, fn, raw } = config
+  return flux`
+    from(bucket: ${bucket})
+      ${createRange(config, shift)}
+      ${createFieldSelectorFilter(fields)}
+      ${createWhereFilter(where)}
+      ${shift ? createTimeShift(shift) : EMPTY_QUERY}
+      ${raw ? EMPTY_QUERY : createAggregateWindow(aggregate, fn)}
+  `
+}
@@ -0,0 +1,285 @@
+import { HttpError, InfluxDB } from '@influxdata/influxdb-client'
+import { InfluxBackend, InfluxRecord, InfluxTableIndex, toInfluxRows, toInfluxTime } from './backend'
+import {
+  InfluxAggregateParams,
+  InfluxBucket,
+  InfluxDurationValidator,
+  InfluxFieldSelector,
+  InfluxMeasurement,
+  InfluxReducer,
+  InfluxReducerValidator,
+  InfluxRow,
+  InfluxTagFilter,
+  InfluxTagParams,
+  InfluxTimespanParams
+} from './model'
+import { addInfluxDuration, createAbsoluteRange, DEFAULT_AGGREGATE, DEFAULT_REDUCER, isPercentile } from './query'
+import { toArrayOrUndefined } from '../util'
+
+// InfluxDB 3.x, bucket is the database and measurement is the table.
+// Tags are the dictionary columns of the table, other columns except "time" are fields.
+
+export const createSqlBackend = (client: InfluxDB): InfluxBackend => ({
+  getBuckets: () => getBuckets(client),
+  getMeasurements: (...args) => getMeasurements(client, ...args),
+  getFields: (...args) => getFields(client, ...args),
+  getTags: (...args) => getTags(client, ...args),
+  getTagValues: (...args) => getTagValues(client, ...args),
+  getLastValue: (...args) => getLastValue(client, ...args),
+  getValuesFromTimespan: (...args) => getValuesFromTimespan(client, ...args)
+})
+
+const getBuckets = async (client: InfluxDB): Promise<InfluxBucket[]> => {
+  const records: InfluxRecord[] = await client.transport.request('/api/v3/configure/database?format=json', '', {
+    method: 'GET',
+    headers: { accept: 'application/json' }
+  })
+
+  return records.map(r => `${r['iox::database']}`).map(name => ({
+    id: name,
+    name,
+    table: 0,
+    retentionPolicy: '',
+    retentionPeriod: 0,
+    result: '_result',
+    organizationID: ''
+  }))
+}
+
+const getMeasurements = async (
+  client: InfluxDB,
+  bucket: string,
+  _config: InfluxTimespanParams
+): Promise<InfluxMeasurement[] | null> => {
+  const records = await query(client, bucket, `
+    SELECT table_name
+    FROM information_schema.tables
+    WHERE table_schema = 'iox'
+    ORDER BY table_name
+  `)
+
+  return records ? records.map(r => ({ _measurement: `${r.table_name}` })) : null
+}
+
+const getFields = async (
+  client: InfluxDB,
+  bucket: string,
+  measurement: string,
+  _config: InfluxTimespanParams
+): Promise<string[] | null> => {
+  const columns = await getColumns(client, bucket, measurement)
+  return columns ? columns.filter(c => !c.tag).map(c => c.name) : null
+}
+
+const getTags = async (
+  client: InfluxDB,
+  bucket: string,
+  measurement: string,
+  _config: InfluxTimespanParams
+): Promise<string[] | null> => {
+  const columns = await getColumns(client, bucket, measurement)
+  return columns ? columns.filter(c => c.tag).map(c => c.name) : null
+}
+
+const getTagValues = async (
+  client: InfluxDB,
+  bucket: string,
+  measurement: string,
+  tag: string,
+  config: InfluxTimespanParams
+): Promise<string[] | null> => {
+  const records = await query(client, bucket, `
+    SELECT DISTINCT ${toIdentifier(tag)} AS value
+    FROM ${toIdentifier(measurement)}
+    WHERE ${createTimeCondition(config)} AND ${toIdentifier(tag)} IS NOT NULL
+    ORDER BY value
+  `)
+
+  return records ? records.map(r => `${r.value}`) : null
+}
+
+// Latest row of every tag set, like "last()" in Flux
+const getLastValue = async (
+  client: InfluxDB,
+  bucket: string,
+  measurement: string,
+  field: string,
+  where: InfluxTagFilter[],
+  config: InfluxTagParams
+): Promise<InfluxRow[] | null> => {
+  const tags = await getTags(client, bucket, measurement, config)
+  if (!tags) {
+    return null
+  }
+
+  const columns = ['time', ...tags, field].map(toIdentifier).join(', ')
+  const partition = tags.length > 0 ? `PARTITION BY ${tags.map(toIdentifier).join(', ')}` : ''
+  const records = await query(client, bucket, `
+    SELECT ${columns}
+    FROM (
+      SELECT ${columns}, ROW_NUMBER() OVER (${partition} ORDER BY time DESC) AS row_number
+      FROM ${toIdentifier(measurement)}
+      WHERE ${createTimeCondition(config)} AND ${toIdentifier(field)} IS NOT NULL AND ${createWhereCondition(where)}
+    )
+    WHERE row_number = 1
+  `)
+
+  return records ? toInfluxRows(records, measurement, [field]) : null
+}
+
+const getValuesFromTimespan = async (
+  client: InfluxDB,
+  bucket: string,
+  fields: InfluxFieldSelector[],
+  where: InfluxTagFilter[],
+  config: InfluxAggregateParams,
+  shift?: string
+): Promise<InfluxRow[] | null> => {
+  const { aggregate, fn, raw } = config
+  const every = aggregate ?? DEFAULT_AGGREGATE
+  const tables: InfluxTableIndex = new Map()
+  const rows: InfluxRow[] = []
+  for (const measurement of new Set(fields.map(f => f.measurement))) {
+    const tags = await getTags(client, bucket, measurement, config)
+    if (!tags) {
+      return null
+    }
+
+    const measurementFields = fields.filter(f => f.measurement === measurement).map(f => f.field)
+    const window = `date_bin(${toInterval(every)}, time)`
+    const tagColumns = tags.map(toIdentifier)
+    const columns = raw
+      ? ['time', ...tagColumns, ...measurementFields.map(toIdentifier)]
+      : [`${window} AS time`, ...tagColumns, ...measurementFields.map(f => `${createReducer(fn ?? DEFAULT_REDUCER, f)} AS ${toIdentifier(f)}`)]
+
+    const records = await query(client, bucket, `
+      SELECT ${columns.join(', ')}
+      FROM ${toIdentifier(measurement)}
+      WHERE ${createTimeCondition(config, shift)} AND ${createWhereCondition(where)}
+      ${raw ? '' : `GROUP BY ${[window, ...tagColumns].join(', ')}`}
+      ORDER BY time
+    `)
+
+    if (!records) {
+      return null
+    }
+
+    // Windows are labeled with the stop time like in Flux, shifted values are moved back to the original range
+    const shifted = records.map(r => {
+      const time = raw ? toInfluxTime(r.time) : addInfluxDuration(toInfluxTime(r.time), every)
+      return { ...r, time: shift ? addInfluxDuration(time, shift) : time }
+    })
+
+    rows.push(...toInfluxRows(shifted, measurement, measurementFields, tables))
+  }
+
+  return rows.sort((a, b) => a.table - b.table)
+}
+
+// INTERNAL
+
+// Returns null if the database was not found
+const query = async (client: InfluxDB, bucket: string, q: string): Promise<InfluxRecord[] | null> => {
+  try {
+    return await client.transport.request('/api/v3/query_sql', { db: bucket, q, format: 'json' }, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json; charset=utf-8', accept: 'application/json' }
+    })
+  } catch (err) {
+    if (err instanceof HttpError && err.statusCode === 404) {
+      return null
+    }
+
+    throw err
+  }
+}
+
+const getColumns = async (
+  client: InfluxDB,
+  bucket: string,
+  measurement: string
+): Promise<{ name: string, tag: boolean }[] | null> => {
+  const records = await query(client, bucket, `
+    SELECT column_name, data_type
+    FROM information_schema.columns
+    WHERE table_schema = 'iox' AND table_name = ${toStringLiteral(measurement)} AND column_name != 'time'
+    ORDER BY column_name
+  `)
+
+  return records
+    ? records.map(r => ({ name: `${r.column_name}`, tag: `${r.data_type}`.startsWith('Dictionary') }))
+    : null
+}
+
+const toIdentifier = (name: string): string => `"${name.replace(/"/g, '""')}"`
+
+const toStringLiteral = (value: string): string => `'${value.replace(/'/g, '\'\'')}'`
+
+// Example: '15m' -> "INTERVAL '15 minutes'"
+const toInterval = (duration: string): string => {
+  const valid = InfluxDurationValidator.parse(duration)
+  const unit = { d: 'days', h: 'hours', m: 'minutes' }[valid.slice(-1)]
+  return `INTERVAL '${Number(valid.slice(0, -1))} ${unit}'`
+}
+
+const createTimeCondition = (config: InfluxTimespanParams, shift?: string): string => {
+  const { start, stop } = createAbsoluteRange(config, shift)
+  return `time >= TIMESTAMP ${toStringLiteral(start)} AND time <= TIMESTAMP ${toStringLiteral(stop)}`
+}
+
+// Example: 'p95' -> 'approx_percentile_cont("field", 0.95)'
+const createReducer = (fn: InfluxReducer, field: string): string => {
+  const reducer = InfluxReducerValidator.parse(fn)
+  const column = toIdentifier(field)
+  if (isPercentile(reducer)) {
+    return `approx_percentile_cont(${column}, ${Number(reducer.slice(1)) / 100})`
+  }
+
+  switch (reducer) {
+    case 'mean':
+      return `avg(${column})`
+    case 'spread':
+      return `max(${column}) - min(${column})`
+    case 'first':
+      return `first_value(${column} ORDER BY time)`
+    case 'last':
+      return `last_value(${column} ORDER BY time)`
+    default:
+      return `${reducer}(${column})`
+  }
+}
+
+const createWhereCondition = (where: InfluxTagFilter[]): string => joinConditions(where.map(createTagCondition), 'AND')
+
+// Missing tags are nulls in SQL
+const createTagCondition = (filter: InfluxTagFilter): string => {
+  if ('or' in filter) {
+    return joinConditions(filter.or.map(group => joinConditions(group.map(createTagCondition), 'AND')), 'OR')
+  }
+
+  const tag = toIdentifier(filter.tag)
+  const values = toArrayOrUndefined(filter.value) ?? []
+  switch (filter.operator ?? '=') {
+    case '=':
+      return values.length > 0 ? `${tag} IN (${values.map(toStringLiteral).join(', ')})` : 'false'
+    case '!=':
+      return values.length > 0 ? `(${tag} IS NULL OR ${tag} NOT IN (${values.map(toStringLiteral).join(', ')}))` : 'true'
+    case '=~':
+      return `${tag} ~ ${toStringLiteral(values[0])}`
+    case '!~':
+      return `(${tag} IS NULL OR ${tag} !~ ${toStringLiteral(values[0])})`
+    case 'exists':
+      return `${tag} IS NOT NULL`
+    case '!exists':
+      return `${tag} IS NULL`
+  }
+}
+
+// Empty "AND" matches everything, empty "OR" matches nothing
+const joinConditions = (conditions: string[], operator: 'AND' | 'OR'): string => {
+  if (conditions.length === 0) {
+    return operator === 'AND' ? 'true' : 'false'
+  }
+
+  return conditions.length > 1 ? `(${conditions.join(` ${operator} `)})` : conditions[0]
+}
@@ -0,0 +1,295 @@
+import { parseISO } from 'date-fns'
+import { z } from 'zod'
+import { createChart } from './chart'
+import { createMdBlock, createMdHeader, toInfluxTagSetStr, toInfluxTimestampDistanceMd } from './format'
+import influx from './influx'
+import { InfluxConnectionNameValidator, isFluxConnection } from './influx/connection'
+import { InfluxIntervalRead } from './influx/interval'
+import {
+  InfluxChange,
+  InfluxChangeValidator,
+  InfluxDurationValidator,
+  InfluxReducer,
+  InfluxReducerValidator,
+  InfluxRow
+} from './influx/model'
+import {
+  ChangeNotification,
+  CompoundNotification,
+  DeadmanNotification,
+  Notification,
+  ThresholdNotification
+} from './storage/model'
+import { divideToInfluxTables, getInfluxTags, getValueOperatorFunc } from './util'
+import { VOCABULARY as V } from './vocabulary'
+
+const DEADMAN_LOOKBACK = '-7d' // Stale series are still found from the last week
+const ROW_INDENT = ' '.repeat(2)
+
+export type NotificationConfig = {
+  readonly renotify?: number // Seconds
+  readonly cooldown?: number // Seconds
+  readonly chart?: number // Hours
+  readonly window?: string // Example: '15m' or '1h'
+  readonly fn?: InfluxReducer
+  readonly change?: InfluxChange
+  readonly conn?: string
+}
+
+export const NotificationConfigValidator: z.ZodType<NotificationConfig> = z.object({
+  renotify: z.coerce.number().min(1).optional(),
+  cooldown: z.coerce.number().min(0).optional(),
+  chart: z.coerce.number().int().min(1).optional(),
+  window: InfluxDurationValidator.optional(),
+  fn: InfluxReducerValidator.optional(),
+  change: InfluxChangeValidator.optional(),
+  conn: InfluxConnectionNameValidator.optional()
+})
+  .refine(c => !c.fn || c.window, { message: '"fn" requires "window"', path: ['fn'] })
+  .refine(c => !c.change || c.window, { message: '"change" requires "window"', path: ['change'] })
+  .refine(c => !c.change || !c.fn, { message: '"change" and "fn" cannot be combined', path: ['change'] })
+  .refine(c => !c.window || isFluxConnection(c.conn), { message: '"window" requires a Flux connection', path: ['window'] })
+
+export type NotificationEvent = 'firing' | 'repeat' | 'resolved'
+const NOTIFICATION_EVENTS: NotificationEvent[] = ['firing', 'repeat', 'resolved']
+
+export type NotificationResult = {
+  readonly series?: string // Tag set of the series, undefined for the whole notification
+  readonly triggered: boolean
+  readonly lines: string[]
+}
+
+type NotificationState = {
+  firing: boolean
+  resolvedAt: number
+  notifiedAt: number
+}
+
+export const toInfluxIntervalRead = (notification: Notification): InfluxIntervalRead => ({
+  id: notification.id,
+  intervalMs: notification.intervalMs,
+  read: () => readNotification(notification)
+})
+
+const readNotification = async (notification: Notification): Promise<InfluxRow[] | null> => {
+  const { bucket, where, connection: conn } = notification
+  switch (notification.type) {
+    case 'threshold': {
+      const { measurement, field, window, fn } = notification
+      return window
+        ? await influx.getWindowValue(bucket, measurement, field, where, fn ?? 'mean', { start: `-${window}`, conn })
+        : await influx.getLastValue(bucket, measurement, field, where, { start: '-1h', conn })
+    }
+    case 'deadman': {
+      const { measurement, field } = notification
+      return await influx.getLastValue(bucket, measurement, field, where, { start: DEADMAN_LOOKBACK, conn })
+    }
+    case 'change': {
+      const { measurement, field, window, change } = notification
+      return await influx.getWindowChange(bucket, measurement, field, where, change, { start: `-${window}`, conn })
+    }
+    case 'compound': {
+      const fields = notification.conditions.flat()
+      return await influx.getLastValueOfFields(bucket, fields, where, { start: '-1h', conn })
+    }
+  }
+}
+
+// Compound notifications have multiple fields and are not charted
+export const createNotificationChart = async (notification: Notification): Promise<Buffer | null> => {
+  const { chartHours, bucket, where, connection: conn } = notification
+  if (!chartHours || notification.type === 'compound') {
+    return null
+  }
+
+  const { measurement, field } = notification
+  const config = { start: `-${chartHours}h`, aggregate: `${chartHours}m`, conn } // ~60 points per series
+  const rows = await influx.getValuesFromTimespan(bucket, [{ measurement, field }], where, config)
+  if (!rows || rows.length === 0) {
+    return null
+  }
+
+  // Threshold is drawn only for last value notifications, windowed values (e.g. "fn=count") don't match the chart values
+  const thresholds = notification.type === 'threshold' && !notification.window ? [notification.value] : undefined
+  return await createChart('line', divideToInfluxTables(rows), { thresholds })
+}
+
+// Every series (= InfluxDB table) is evaluated separately
+export const evaluateNotification = (
+  notification: Notification,
+  rows: InfluxRow[],
+  now = new Date()
+): NotificationResult[] => {
+  switch (notification.type) {
+    case 'threshold':
+      return evaluateThreshold(notification, rows, now)
+    case 'deadman':
+      return evaluateDeadman(notification, rows, now)
+    case 'change':
+      return evaluateThreshold(notification, rows, now)
+    case 'compound':
+      return evaluateCompound(notification, rows, now)
+  }
+}
+
+export const createNotificationMessage = (
+  notification: Notification,
+  events: [NotificationEvent, NotificationResult][]
+): string => {
+  const builder: string[] = []
+  for (const type of NOTIFICATION_EVENTS) {
+    const results = events.filter(([e]) => e === type).map(([, r]) => r)
+    if (results.length === 0) {
+      continue
+    }
+
+    builder.push(createMdHeader(V[`telegram.notification-${type}`](notification.name)))
+    results.forEach(r => {
+      if (r.series) {
+        builder.push(r.series)
+        r.lines.forEach(l => builder.push(`${ROW_INDENT}${l}`))
+      } else {
+        builder.push(...r.lines)
+      }
+    })
+
+    builder.push('')
+  }
+
+  return createMdBlock(builder.join('\n').trimEnd())
+}
+
+const evaluateThreshold = (
+  notification: ThresholdNotification | ChangeNotification,
+  rows: InfluxRow[],
+  now: Date
+): NotificationResult[] => {
+  const { window } = notification
+  const func = getValueOperatorFunc(notification)
+  const reducer = notification.type === 'change' ? notification.change : notification.fn ?? 'mean'
+  return [...divideToInfluxTables(rows).values()].flatMap(table => {
+    const row = table.at(-1)
+    if (!row) {
+      return []
+    }
+
+    const value = window ? `${reducer} (${window}): ${row._value}` : `${row._value}`
+    return {
+      series: toInfluxTagSetStr(row),
+      triggered: func(row),
+      lines: [`${value} (${toInfluxTimestampDistanceMd(row, now)} ago)`]
+    }
+  })
+}
+
+const evaluateDeadman = (notification: DeadmanNotification, rows: InfluxRow[], now: Date): NotificationResult[] => {
+  const results: NotificationResult[] = [...divideToInfluxTables(rows).values()].flatMap(table => {
+    const row = table.at(-1)
+    if (!row) {
+      return []
+    }
+
+    return {
+      series: toInfluxTagSetStr(row),
+      triggered: now.getTime() - parseISO(row._time).getTime() > notification.staleMs,
+      lines: [V['telegram.notification-last-reported'](toInfluxTimestampDistanceMd(row, now))]
+    }
+  })
+
+  // No series at all is tracked separately, since there's no tag set to report
+  return [{ triggered: rows.length === 0, lines: [V['influx.values-not-found']] }, ...results]
+}
+
+// Series of the conditions are joined on the tags they all have (e.g. "host"), and every joined series is evaluated separately.
+// Sub-conditions are true if any series of the joined series fulfills them, without common tags all series are joined.
+const evaluateCompound = (notification: CompoundNotification, rows: InfluxRow[], now: Date): NotificationResult[] => {
+  const tagSets = rows.map(r => new Map(getInfluxTags(r)))
+  const commonTags = [...tagSets.at(0)?.keys() ?? []].filter(tag => tagSets.every(t => t.has(tag))).sort()
+  const toSeries = (i: number): string => commonTags.map(tag => `${tag}=${tagSets[i].get(tag)}`).join(',')
+  const series = rows.length > 0 ? [...new Set(rows.map((_, i) => toSeries(i)))] : ['']
+
+  return series.map(s => {
+    const seriesRows = rows.filter((_, i) => toSeries(i) === s)
+    const lines: string[] = []
+    const triggered = notification.conditions.map(group => group.map(condition => {
+      const { measurement, field, operator, value } = condition
+      const func = getValueOperatorFunc(condition)
+      const conditionRows = seriesRows.filter(r => r._measurement === measurement && r._field === field)
+      const conditionTriggered = conditionRows.some(func)
+      lines.push(`${measurement}:${field} ${operator} ${value} (${conditionTriggered})`)
+      conditionRows.forEach(r => lines.push(
+        `${ROW_INDENT}${toInfluxTagSetStr(r)}: ${r._value} (${toInfluxTimestampDistanceMd(r, now)} ago)`
+      ))
+
+      return conditionTriggered
+    }))
+
+    return { series: s || undefined, triggered: triggered.some(group => group.every(t => t)), lines }
+  })
+}
+
+// Firing/resolved states of notification series between interval reads
+export class NotificationStateTracker {
+  private readonly states: Map<string, Map<string, NotificationState>> = new Map()
+
+  // Returns the event to send or null if the chat should stay quiet
+  update(notification: Notification, series: string, triggered: boolean, now = Date.now()): NotificationEvent | null {
+    const { id, renotifyMs, cooldownMs } = notification
+    const seriesStates = this.states.get(id) ?? new Map<string, NotificationState>()
+    const state = seriesStates.get(series) ?? { firing: false, resolvedAt: 0, notifiedAt: 0 }
+    seriesStates.set(series, state)
+    this.states.set(id, seriesStates)
+
+    if (triggered && !state.firing) {
+      if (now - state.resolvedAt < (cooldownMs ?? 0)) {
+        return null // Prevent flapping values from spamming the chat
+      }
+
+      state.firing = true
+      state.notifiedAt = now
+      return 'firing'
+    }
+
+    if (!triggered && state.firing) {
+      state.firing = false
+      state.resolvedAt = now
+      state.notifiedAt = now
+      return 'resolved'
+    }
+
+    if (state.firing && renotifyMs && now - state.notifiedAt >= renotifyMs) {
+      state.notifiedAt = now
+      return 'repeat'
+    }
+
+    return null
+  }
+
+  // Series missing from a read are resolved if they were firing and forgotten otherwise.
+  // Returns the resolved series, since there are no results to report them with.
+  resolveMissing(notification: Notification, series: string[], now = Date.now()): string[] {
+    const resolved: string[] = []
+    const seriesStates = this.states.get(notification.id) ?? new Map<string, NotificationState>()
+    for (const [key, state] of seriesStates) {
+      if (series.includes(key)) {
+        continue
+      }
+
+      if (!state.firing) {
+        seriesStates.delete(key)
+        continue
+      }
+
+      state.firing = false
+      state.resolvedAt = now
+      state.notifiedAt = now
+      resolved.push(key)
+    }
+
+    return resolved
+  }
+
+  remove(id: string) {
+    this.states.delete(id)
+  }
+}
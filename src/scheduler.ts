@@ -0,0 +1,50 @@
+import EventEmitter from 'events'
+import cron, { ScheduledTask } from 'node-cron'
+import { TZ } from './util'
+
+export declare interface ActionScheduler {
+  on(event: 'run', listener: (data: ActionScheduleRunData) => void | Promise<void>): this
+}
+
+export type ActionSchedule = {
+  readonly id: string
+  readonly cron: string
+}
+
+export type ActionScheduleRunData = {
+  readonly id: string
+}
+
+export class ActionScheduler extends EventEmitter {
+  private readonly taskMap: Map<string, ScheduledTask> = new Map()
+
+  init(params: ActionSchedule[]) {
+    params.forEach(p => this.create(p))
+  }
+
+  create(params: ActionSchedule) {
+    const { id } = params
+    const task = cron.schedule(params.cron, () => {
+      const data: ActionScheduleRunData = { id }
+      this.emit('run', data)
+    }, { timezone: TZ })
+
+    this.taskMap.set(id, task)
+    this.log('Created schedule:', id)
+  }
+
+  remove(id: string) {
+    const task = this.taskMap.get(id)
+    if (task) {
+      task.stop()
+      this.taskMap.delete(id)
+      this.log('Removed schedule:', id)
+    } else {
+      this.log('Could not remove schedule (not found):', id)
+    }
+  }
+
+  private log(...args: any[]) {
+    console.log('[ActionScheduler]', ...args)
+  }
+}
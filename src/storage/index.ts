@@ -5,17 +5,25 @@ import {
   Action,
   ActionInput,
   ActionValidator,
+  Dashboard,
+  DashboardPanel,
+  DashboardValidator,
   Notification,
   NotificationInput,
   NotificationValidator,
+  Owner,
+  Schedule,
+  ScheduleInput,
+  ScheduleValidator,
   Storage,
   StorageValidator,
   User
 } from './model'
+import { UserAccess } from '../access'
 
 // Very simple storage implementation, because the bot is not meant to be used by many people.
 const STORAGE_PATH = process.env.STORAGE_PATH ?? 'storage.json'
-const storage: Storage = []
+const storage: Storage = { users: [], chats: [] }
 
 const init = async (): Promise<void> => {
   if (!existsSync(STORAGE_PATH)) {
@@ -24,34 +32,46 @@ const init = async (): Promise<void> => {
   }
 
   const file = await readFile(STORAGE_PATH)
-  storage.push(...StorageValidator.parse(JSON.parse(file.toString())))
-  storage.forEach(user => user.actions.sort((a, b) => a.name.localeCompare(b.name)))
+  const { users, chats } = StorageValidator.parse(JSON.parse(file.toString()))
+  storage.users.push(...users)
+  storage.chats.push(...chats)
+  getOwners().forEach(owner => {
+    owner.actions.sort((a, b) => a.name.localeCompare(b.name))
+    owner.dashboards.sort((a, b) => a.name.localeCompare(b.name))
+  })
   await persist() // Ensure that notifications are persisted
 }
 
 const createUserIfNotExists = async (userId: number, chatId: number): Promise<void> => {
   if (!userExists(userId)) {
-    storage.push({ id: userId, chatId, actions: [], notifications: [] })
+    storage.users.push({ id: userId, chatId, actions: [], notifications: [], schedules: [], dashboards: [] })
     await persist()
   }
 }
 
-const getActions = (userId: number): Action[] => getUser(userId).actions
+const createGroupChatIfNotExists = async (chatId: number): Promise<void> => {
+  if (!storage.chats.some(c => c.id === chatId)) {
+    storage.chats.push({ id: chatId, chatId, actions: [], notifications: [], schedules: [], dashboards: [] })
+    await persist()
+  }
+}
 
-const addAction = async (userId: number, input: ActionInput): Promise<void> => {
-  const user = getUser(userId)
+const getActions = (ownerId: number): Action[] => getOwner(ownerId).actions
+
+const addAction = async (ownerId: number, input: ActionInput): Promise<void> => {
+  const owner = getOwner(ownerId)
   const action = ActionValidator.parse({ ...input, id: uuid4() })
-  user.actions.push(action)
-  user.actions.sort((a, b) => a.name.localeCompare(b.name))
+  owner.actions.push(action)
+  owner.actions.sort((a, b) => a.name.localeCompare(b.name))
   await persist()
 }
 
-const removeAction = async (userId: number, actionId: string): Promise<Action | null> => {
-  const user = getUser(userId)
-  const i = user.actions.findIndex(a => a.id === actionId)
+const removeAction = async (ownerId: number, actionId: string): Promise<Action | null> => {
+  const owner = getOwner(ownerId)
+  const i = owner.actions.findIndex(a => a.id === actionId)
   if (i !== -1) {
-    const action = user.actions[i]
-    user.actions.splice(i, 1)
+    const action = owner.actions[i]
+    owner.actions.splice(i, 1)
     await persist()
     return action
   }
@@ -59,25 +79,25 @@ const removeAction = async (userId: number, actionId: string): Promise<Action |
   return null
 }
 
-const getAllNotifications = (): Notification[] => storage.flatMap(u => u.notifications)
+const getAllNotifications = (): Notification[] => getOwners().flatMap(o => o.notifications)
 
-const getNotifications = (userId: number): Notification[] => getUser(userId).notifications
+const getNotifications = (ownerId: number): Notification[] => getOwner(ownerId).notifications
 
-const addNotification = async (userId: number, input: NotificationInput): Promise<Notification> => {
+const addNotification = async (ownerId: number, input: NotificationInput): Promise<Notification> => {
   const notification = NotificationValidator.parse({ ...input, id: uuid4() })
-  const user = getUser(userId)
-  user.notifications.push(notification)
-  user.notifications.sort((a, b) => a.name.localeCompare(b.name))
+  const owner = getOwner(ownerId)
+  owner.notifications.push(notification)
+  owner.notifications.sort((a, b) => a.name.localeCompare(b.name))
   await persist()
   return notification
 }
 
-const removeNotification = async (userId: number, notificationId: string): Promise<Notification | null> => {
-  const user = getUser(userId)
-  const i = user.notifications.findIndex(a => a.id === notificationId)
+const removeNotification = async (ownerId: number, notificationId: string): Promise<Notification | null> => {
+  const owner = getOwner(ownerId)
+  const i = owner.notifications.findIndex(a => a.id === notificationId)
   if (i !== -1) {
-    const notification = user.notifications[i]
-    user.notifications.splice(i, 1)
+    const notification = owner.notifications[i]
+    owner.notifications.splice(i, 1)
     await persist()
     return notification
   }
@@ -85,27 +105,139 @@ const removeNotification = async (userId: number, notificationId: string): Promi
   return null
 }
 
-const getNotificationUser = (notificationId: string): User | null => {
-  for (const user of storage) {
-    if (!!user.notifications.find(n => n.id === notificationId)) {
-      return user
-    }
+const getNotificationOwner = (notificationId: string): Owner | null => (
+  getOwners().find(o => o.notifications.some(n => n.id === notificationId)) ?? null
+)
+
+// Subscribed chats receive the notification messages in addition to the owner
+const setNotificationSubscribed = async (
+  notificationId: string,
+  chatId: number,
+  subscribed: boolean
+): Promise<Notification | null> => {
+  const owner = getNotificationOwner(notificationId)
+  const i = owner?.notifications.findIndex(n => n.id === notificationId) ?? -1
+  if (!owner || i === -1) {
+    return null
+  }
+
+  const notification = owner.notifications[i]
+  const subscribers = (notification.subscribers ?? []).filter(s => s !== chatId)
+  const updated = { ...notification, subscribers: subscribed ? [...subscribers, chatId] : subscribers }
+  owner.notifications.splice(i, 1, updated)
+  await persist()
+  return updated
+}
+
+const getAllSchedules = (): Schedule[] => getOwners().flatMap(o => o.schedules)
+
+const getSchedules = (ownerId: number): Schedule[] => getOwner(ownerId).schedules
+
+const addSchedule = async (ownerId: number, input: ScheduleInput): Promise<Schedule> => {
+  const schedule = ScheduleValidator.parse({ ...input, id: uuid4() })
+  const owner = getOwner(ownerId)
+  owner.schedules.push(schedule)
+  await persist()
+  return schedule
+}
+
+const removeSchedule = async (ownerId: number, scheduleId: string): Promise<Schedule | null> => {
+  const owner = getOwner(ownerId)
+  const i = owner.schedules.findIndex(s => s.id === scheduleId)
+  if (i !== -1) {
+    const schedule = owner.schedules[i]
+    owner.schedules.splice(i, 1)
+    await persist()
+    return schedule
+  }
+
+  return null
+}
+
+const getScheduleOwner = (scheduleId: string): Owner | null => (
+  getOwners().find(o => o.schedules.some(s => s.id === scheduleId)) ?? null
+)
+
+const getDashboards = (ownerId: number): Dashboard[] => getOwner(ownerId).dashboards
+
+// Panels are added to the existing dashboard with the same name
+const addDashboardPanel = async (ownerId: number, name: string, panel: DashboardPanel): Promise<Dashboard> => {
+  const owner = getOwner(ownerId)
+  const i = owner.dashboards.findIndex(d => d.name === name)
+  const existing = i !== -1 ? owner.dashboards[i] : null
+  const dashboard = DashboardValidator.parse(existing
+    ? { ...existing, panels: [...existing.panels, panel] }
+    : { id: uuid4(), name, panels: [panel] }
+  )
+
+  if (existing) {
+    owner.dashboards.splice(i, 1, dashboard)
+  } else {
+    owner.dashboards.push(dashboard)
+    owner.dashboards.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  await persist()
+  return dashboard
+}
+
+const removeDashboard = async (ownerId: number, dashboardId: string): Promise<Dashboard | null> => {
+  const owner = getOwner(ownerId)
+  const i = owner.dashboards.findIndex(d => d.id === dashboardId)
+  if (i !== -1) {
+    const dashboard = owner.dashboards[i]
+    owner.dashboards.splice(i, 1)
+    await persist()
+    return dashboard
   }
 
   return null
 }
 
-const userExists = (userId: number): boolean => storage.some(u => u.id === userId)
+const getUsers = (): User[] => storage.users
+
+const getGroupChatIds = (): number[] => storage.chats.map(c => c.id)
+
+const getAccess = (userId: number): UserAccess | null => (
+  storage.users.find(u => u.id === userId)?.access ?? null
+)
+
+// Access can be granted before the user has started the bot, private chat ID equals the user ID
+const setAccess = async (userId: number, access: UserAccess | null): Promise<void> => {
+  const i = storage.users.findIndex(u => u.id === userId)
+  const user = i !== -1
+    ? storage.users[i]
+    : { id: userId, chatId: userId, actions: [], notifications: [], schedules: [], dashboards: [] }
+
+  storage.users.splice(i !== -1 ? i : storage.users.length, 1, { ...user, access: access ?? undefined })
+  await persist()
+}
+
+const getConnection = (userId: number): string | null => (
+  storage.users.find(u => u.id === userId)?.connection ?? null
+)
+
+const setConnection = async (userId: number, connection: string | null): Promise<void> => {
+  const i = storage.users.findIndex(u => u.id === userId)
+  if (i !== -1) {
+    storage.users.splice(i, 1, { ...storage.users[i], connection: connection ?? undefined })
+    await persist()
+  }
+}
+
+const userExists = (userId: number): boolean => storage.users.some(u => u.id === userId)
 
 // INTERNAL
 
-const getUser = (id: number): User => {
-  const user = storage.find(u => u.id === id)
-  if (!user) {
-    throw new Error(`User not found with ID: ${id}`)
+const getOwners = (): Owner[] => [...storage.users, ...storage.chats]
+
+const getOwner = (id: number): Owner => {
+  const owner = getOwners().find(o => o.id === id)
+  if (!owner) {
+    throw new Error(`User or group chat not found with ID: ${id}`)
   }
 
-  return user
+  return owner
 }
 
 const persist = async (): Promise<void> => writeFile(STORAGE_PATH, JSON.stringify(storage))
@@ -113,6 +245,7 @@ const persist = async (): Promise<void> => writeFile(STORAGE_PATH, JSON.stringif
 export default {
   init,
   createUserIfNotExists,
+  createGroupChatIfNotExists,
   getActions,
   addAction,
   removeAction,
@@ -120,6 +253,21 @@ export default {
   getNotifications,
   addNotification,
   removeNotification,
-  getNotificationUser,
+  getNotificationOwner,
+  setNotificationSubscribed,
+  getAllSchedules,
+  getSchedules,
+  addSchedule,
+  removeSchedule,
+  getScheduleOwner,
+  getDashboards,
+  addDashboardPanel,
+  removeDashboard,
+  getUsers,
+  getGroupChatIds,
+  getAccess,
+  setAccess,
+  getConnection,
+  setConnection,
   userExists
 }
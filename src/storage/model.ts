@@ -1,71 +1,300 @@
+import cron from 'node-cron'
 import { z } from 'zod'
-import { InfluxTagFilter } from '../influx/model'
+import { RoleValidator, UserAccess } from '../access'
+import {
+  InfluxChange,
+  InfluxChangeValidator,
+  InfluxDurationValidator,
+  InfluxReducer,
+  InfluxReducerValidator,
+  InfluxTagFilter,
+  InfluxTagFilterValidator
+} from '../influx/model'
 
-export type Storage = User[]
+export type Storage = {
+  readonly users: User[]
+  readonly chats: GroupChat[]
+}
 
 export type User = {
   readonly id: number // Telegram user ID
   readonly chatId: number // Telegram chat ID
   readonly actions: Action[]
   readonly notifications: Notification[]
+  readonly schedules: Schedule[]
+  readonly dashboards: Dashboard[]
+  readonly access?: UserAccess // Granted at runtime by admins
+  readonly connection?: string // Default InfluxDB connection of the user
 }
 
+// Entities saved in a group chat are shared by all members of the chat
+export type GroupChat = Omit<User, 'access' | 'connection'> // ID and chat ID are the Telegram chat ID
+
+// User and group chat IDs never collide, since group chat IDs are negative
+export type Owner = User | GroupChat
+
 export type Action = {
   readonly id: string
   readonly name: string
   readonly command: string
+  readonly connection?: string // Resolved when saved, so the action doesn't depend on who runs it
 }
 
-export type Notification = {
+export type Schedule = {
+  readonly id: string
+  readonly cron: string // Example: '0 8 * * *'
+  readonly actionId: string
+  readonly chatId: number // Telegram chat ID
+  readonly userId?: number // Telegram user ID running the action, undefined for the owner
+}
+
+export type Dashboard = {
   readonly id: string
   readonly name: string
-  readonly operator: '<' | '>' | '<=' | '>=' | '==' | '!='
-  readonly value: number
-  readonly intervalMs: number
+  readonly panels: DashboardPanel[]
+}
+
+// Params of "/chart", parsed when the dashboard is rendered
+export type DashboardPanel = {
+  readonly type: string
   readonly bucket: string
   readonly measurement: string
   readonly field: string
+  readonly where: string
+  readonly config?: string
+  readonly connection?: string // Resolved when saved, "conn" of the config takes precedence
+}
+
+export type NotificationBase = {
+  readonly id: string
+  readonly name: string
+  readonly intervalMs: number
+  readonly renotifyMs?: number // Repeat the message while the notification is firing
+  readonly cooldownMs?: number // Minimum time between resolving and firing again
+  readonly chartHours?: number // Attach a chart of the last hours to firing messages
+  readonly bucket: string
   readonly where: InfluxTagFilter[]
+  readonly subscribers?: number[] // Telegram chat IDs notified in addition to the owner
+  readonly connection?: string // InfluxDB connection, undefined for the default connection
+  readonly creatorId?: number // Telegram user ID, notifications are only sent while the creator has access to the bucket
 }
 
-export type ActionInput = Omit<Action, 'id'>
-export type NotificationInput = Omit<Notification, 'id' | 'operator'> & {
-  readonly operator: string
+export type FieldNotificationBase = NotificationBase & {
+  readonly measurement: string
+  readonly field: string
+}
+
+export type NotificationOperator = '<' | '>' | '<=' | '>=' | '==' | '!='
+
+export type ThresholdNotification = FieldNotificationBase & {
+  readonly type: 'threshold'
+  readonly operator: NotificationOperator
+  readonly value: number
+  readonly window?: string // Evaluation window, example: '15m' or '1h'
+  readonly fn?: InfluxReducer // Reducer for the evaluation window
+}
+
+export type DeadmanNotification = FieldNotificationBase & {
+  readonly type: 'deadman'
+  readonly staleMs: number // Series without values for this long are stale
+}
+
+export type ChangeNotification = FieldNotificationBase & {
+  readonly type: 'change'
+  readonly operator: NotificationOperator
+  readonly value: number
+  readonly window: string // Example: '10m' or '1h'
+  readonly change: InfluxChange
+}
+
+export type NotificationCondition = {
+  readonly measurement: string
+  readonly field: string
+  readonly operator: NotificationOperator
+  readonly value: number
+}
+
+export type CompoundNotification = NotificationBase & {
+  readonly type: 'compound'
+  readonly expression: string // Example: 'cpu:usage > 90 AND system:load1 > 8'
+  readonly conditions: NotificationCondition[][] // Parsed from the expression when loaded
 }
 
+export type Notification = ThresholdNotification | DeadmanNotification | ChangeNotification | CompoundNotification
+
+export type ActionInput = Omit<Action, 'id'>
+export type ScheduleInput = Omit<Schedule, 'id'>
+export type NotificationInput =
+  | Omit<ThresholdNotification, 'id' | 'operator'> & { readonly operator: string }
+  | Omit<DeadmanNotification, 'id'>
+  | Omit<ChangeNotification, 'id' | 'operator'> & { readonly operator: string }
+  | Omit<CompoundNotification, 'id' | 'conditions'>
+
 export const ActionValidator: z.ZodType<Action> = z.object({
   id: z.string().uuid(),
   name: z.string(),
-  command: z.string()
+  command: z.string(),
+  connection: z.string().optional()
+})
+
+export const ScheduleValidator: z.ZodType<Schedule> = z.object({
+  id: z.string().uuid(),
+  cron: z.string().refine(c => cron.validate(c), 'Invalid cron expression'),
+  actionId: z.string().uuid(),
+  chatId: z.number(),
+  userId: z.number().optional()
+})
+
+export const DASHBOARD_MAX_PANELS = 10 // Telegram media group limit
+
+export const DashboardPanelValidator: z.ZodType<DashboardPanel> = z.object({
+  type: z.string(),
+  bucket: z.string(),
+  measurement: z.string(),
+  field: z.string(),
+  where: z.string(),
+  config: z.string().optional(),
+  connection: z.string().optional()
+})
+
+export const DashboardValidator: z.ZodType<Dashboard> = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  panels: DashboardPanelValidator.array().min(1).max(DASHBOARD_MAX_PANELS)
 })
 
-export const NotificationValidator: z.ZodType<Notification> = z.object({
+const NotificationBaseValidator = z.object({
   id: z.string().uuid(),
   name: z.string(),
-  operator: z.union([
-    z.literal('<'),
-    z.literal('>'),
-    z.literal('<='),
-    z.literal('>='),
-    z.literal('=='),
-    z.literal('!=')
-  ]),
-  value: z.number(),
   intervalMs: z.number().min(1000),
+  renotifyMs: z.number().min(1000).optional(),
+  cooldownMs: z.number().min(0).optional(),
+  chartHours: z.number().min(1).optional(),
   bucket: z.string(),
+  where: InfluxTagFilterValidator.array(),
+  subscribers: z.number().array().optional(),
+  connection: z.string().optional(),
+  creatorId: z.number().optional()
+})
+
+const FieldNotificationBaseValidator = NotificationBaseValidator.extend({
   measurement: z.string(),
-  field: z.string(),
-  where: z.object({
-    tag: z.string(),
-    value: z.string()
-  }).array()
+  field: z.string()
 })
 
-export const UserValidator: z.ZodType<User> = z.object({
+export const NotificationOperatorValidator: z.ZodType<NotificationOperator> = z.union([
+  z.literal('<'),
+  z.literal('>'),
+  z.literal('<='),
+  z.literal('>='),
+  z.literal('=='),
+  z.literal('!=')
+])
+
+export const NotificationConditionValidator: z.ZodType<NotificationCondition, z.ZodTypeDef, unknown> = z.object({
+  measurement: z.string().min(1),
+  field: z.string().min(1),
+  operator: NotificationOperatorValidator,
+  value: z.coerce.number()
+})
+
+// Conditions are joined with "AND" and "OR" ("AND" binds tighter), the result is a list of "AND" groups
+export const NotificationExpressionValidator: z.ZodType<NotificationCondition[][], z.ZodTypeDef, string> = z
+  .string()
+  .transform((str, ctx) => {
+    const groups: NotificationCondition[][] = []
+    for (const groupStr of str.trim().split(/\s+OR\s+/i)) {
+      const group: NotificationCondition[] = []
+      for (const conditionStr of groupStr.split(/\s+AND\s+/i)) {
+        // Example: "cpu:usage_user > 90"
+        const match = conditionStr.trim().match(/^([^\s:]+):(\S+)\s*(<=|>=|==|!=|<|>)\s*(\S+)$/)
+        const result = NotificationConditionValidator.safeParse(match && {
+          measurement: match[1],
+          field: match[2],
+          operator: match[3],
+          value: match[4]
+        })
+
+        if (!result.success) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid condition: "${conditionStr}"` })
+          return z.NEVER
+        }
+
+        group.push(result.data)
+      }
+
+      groups.push(group)
+    }
+
+    return groups
+  })
+
+export const NotificationValidator: z.ZodType<Notification> = z.preprocess(
+  // Notifications created before notification types are threshold notifications
+  n => typeof n === 'object' && n !== null && !('type' in n) ? { ...n, type: 'threshold' } : n,
+  z.discriminatedUnion('type', [
+    FieldNotificationBaseValidator.extend({
+      type: z.literal('threshold'),
+      operator: NotificationOperatorValidator,
+      value: z.number(),
+      window: InfluxDurationValidator.optional(),
+      fn: InfluxReducerValidator.optional()
+    }),
+    FieldNotificationBaseValidator.extend({
+      type: z.literal('deadman'),
+      staleMs: z.number().min(1000)
+    }),
+    FieldNotificationBaseValidator.extend({
+      type: z.literal('change'),
+      operator: NotificationOperatorValidator,
+      value: z.number(),
+      window: InfluxDurationValidator,
+      change: InfluxChangeValidator
+    }),
+    NotificationBaseValidator.extend({
+      type: z.literal('compound'),
+      expression: z.string()
+    })
+  ])
+).transform((n, ctx) => {
+  if (n.type !== 'compound') {
+    return n
+  }
+
+  // Only the expression is the source of truth, the conditions are parsed again on every load
+  const result = NotificationExpressionValidator.safeParse(n.expression)
+  if (!result.success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid expression', path: ['expression'] })
+    return z.NEVER
+  }
+
+  return { ...n, conditions: result.data }
+}) as z.ZodType<Notification>
+
+const OwnerValidator = z.object({
   id: z.number(),
   chatId: z.number(),
   actions: ActionValidator.array(),
-  notifications: NotificationValidator.array().default([])
+  notifications: NotificationValidator.array().default([]),
+  schedules: ScheduleValidator.array().default([]),
+  dashboards: DashboardValidator.array().default([])
+})
+
+export const UserValidator: z.ZodType<User> = OwnerValidator.extend({
+  access: z.object({
+    role: RoleValidator,
+    buckets: z.string().array().optional()
+  }).optional(),
+  connection: z.string().optional()
 }) as z.ZodType<User>
 
-export const StorageValidator: z.ZodType<Storage> = UserValidator.array()
+export const GroupChatValidator: z.ZodType<GroupChat> = OwnerValidator as z.ZodType<GroupChat>
+
+export const StorageValidator: z.ZodType<Storage> = z.preprocess(
+  // Storage created before group chats is a list of users
+  s => Array.isArray(s) ? { users: s } : s,
+  z.object({
+    users: UserValidator.array(),
+    chats: GroupChatValidator.array().default([])
+  })
+) as z.ZodType<Storage>
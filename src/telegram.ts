@@ -1,58 +1,246 @@
+import { randomUUID as uuid4 } from 'crypto'
 import { Context, NarrowedContext, Telegraf } from 'telegraf'
-import { InlineKeyboardButton, InlineKeyboardMarkup, Message, Update } from 'telegraf/types'
+import { Chat, InlineKeyboardButton, InlineKeyboardMarkup, Message, Update, User } from 'telegraf/types'
 import { z, ZodError } from 'zod'
-import { ChartConfigValidator, createChart } from './chart'
+import { hasBucketAccess, hasRole, Role, RoleValidator, UserAccess } from './access'
+import { CHART_TYPES, ChartConfig, ChartConfigValidator, ChartType, ChartTypeValidator, createChart, isTimeChart } from './chart'
+import { createExportStream, ExportFormat, ExportFormatValidator, prependRow, toExportFilename } from './export'
 import {
   createMdBlock,
   createMdHeader,
+  escapeMdBlock,
   toInfluxTableTagMdList,
   toInfluxRowMdList,
+  toInfluxRowMdTable,
+  toInfluxStatsMdList,
   toMdList,
-  toInfluxTimestampDistanceMd,
+  toInfluxWhereStr,
+  toInfluxPointStr,
+  toInfluxBucketStr,
   formatObject
 } from './format'
 import influx from './influx'
+import {
+  getInfluxConnectionNames,
+  INFLUX_DEFAULT_CONNECTION,
+  InfluxConnectionNameValidator,
+  isFluxConnection
+} from './influx/connection'
 import { InfluxIntervalReadData, InfluxIntervalReader } from './influx/interval'
 import {
+  InfluxAggregateParams,
   InfluxAggregateParamsValidator,
+  InfluxConnectionParamsValidator,
+  InfluxFieldSelector,
+  InfluxFieldSelectorValidator,
+  InfluxFluxResult,
+  InfluxFieldSetValidator,
+  InfluxPoint,
+  InfluxReduceParamsValidator,
+  InfluxRow,
+  InfluxTagParams,
   InfluxTagParamsValidator,
+  InfluxTagSetValidator,
   InfluxTimespanParamsValidator,
-  InfluxTagFilter
+  InfluxTagFilter,
+  InfluxWhereValidator
 } from './influx/model'
+import {
+  createNotificationChart,
+  createNotificationMessage,
+  evaluateNotification,
+  NotificationConfigValidator,
+  NotificationEvent,
+  NotificationResult,
+  NotificationStateTracker,
+  toInfluxIntervalRead
+} from './notification'
+import { ActionScheduler, ActionScheduleRunData } from './scheduler'
 import storage from './storage'
-import { divideToInfluxTables, getValueOperatorFunc, stripQuotes, toArrayOrUndefined } from './util'
+import {
+  Dashboard,
+  DashboardPanel,
+  Notification,
+  NotificationExpressionValidator
+} from './storage/model'
+import { divideToInfluxTables, getInfluxTags, stripQuotes, toArrayOrUndefined } from './util'
 import { VOCABULARY as V } from './vocabulary'
 
 type MessageContext = NarrowedContext<Context<Update>, Update.MessageUpdate<Message.TextMessage>>
 type CallbackContext = NarrowedContext<Context<Update>, Update.CallbackQueryUpdate>
 
+type FluxOutput = 'table' | 'chart' | ExportFormat
+
+const FluxOutputValidator: z.ZodType<FluxOutput> = z.union([
+  z.literal('table'),
+  z.literal('chart'),
+  ExportFormatValidator
+])
+
+// Statistics are calculated from the raw values, so the aggregation keys are rejected instead of being ignored
+const StatsConfigValidator: z.ZodType<InfluxTagParams> = InfluxTagParamsValidator.and(z.object({
+  fn: z.undefined({ invalid_type_error: 'Not supported by statistics' }),
+  aggregate: z.undefined({ invalid_type_error: 'Not supported by statistics' }),
+  raw: z.undefined({ invalid_type_error: 'Not supported by statistics' })
+}))
+
+type PendingWrite = {
+  readonly userId: number
+  readonly bucket: string
+  readonly point: InfluxPoint
+  readonly conn?: string
+}
+
+type WizardCommand = 'get' | 'stats' | 'chart'
+
+type WizardStep = 'command' | 'type' | 'bucket' | 'measurement' | 'field' | 'tag' | 'tag-value' | 'done'
+
+// Command built step by step from inline keyboards
+type PendingWizard = {
+  readonly userId: number
+  readonly step: WizardStep
+  readonly options: string[] // Buttons refer to the options by index, since callback data is limited to 64 bytes
+  readonly configStr: string // Appended to the command as is
+  readonly command?: WizardCommand
+  readonly type?: ChartType
+  readonly bucket?: string
+  readonly measurement?: string
+  readonly field?: string
+  readonly tags?: string[] // Tags of the measurement that are not filtered yet
+  readonly tag?: string // Tag whose value is being selected
+  readonly where: [string, string][]
+  readonly page?: number // Page of the options, when there are more options than buttons
+}
+
+type ChartPanel = {
+  readonly type: ChartType
+  readonly bucket: string
+  readonly fields: InfluxFieldSelector[]
+  readonly where: InfluxTagFilter[]
+  readonly config: InfluxAggregateParams & ChartConfig
+}
+
+type ChartPhoto = {
+  readonly source: Buffer
+  readonly caption: string
+}
+
+// Empty query results and failed renders are reported differently
+type ChartPhotoError = 'influx.values-not-found' | 'telegram.chart-error'
+
 const TG_API_TOKEN = process.env.TG_API_TOKEN
-const TG_ALLOWED_USERNAMES = process.env.TG_ALLOWED_USERNAMES?.split(',') ?? []
+const TG_ADMIN_USER_IDS = process.env.TG_ADMIN_USER_IDS?.split(',').map(Number) ?? []
+const TG_ALLOWED_USERNAMES = process.env.TG_ALLOWED_USERNAMES?.split(',') ?? [] // Legacy, treated as alert managers (notifications were allowed)
+const TG_FLUX_USERNAMES = process.env.TG_FLUX_USERNAMES?.split(',') ?? [] // Legacy, treated as writers
+const TG_WRITE_USERNAMES = process.env.TG_WRITE_USERNAMES?.split(',') ?? [] // Legacy, treated as writers
+const TG_CAPTION_MAX_LENGTH = 1024
+const TG_MESSAGE_MAX_LENGTH = 4096
+const TG_KEYBOARD_MAX_OPTIONS = 90 // Telegram allows 100 buttons, the rest are reserved for the controls
+const WIZARD_COMMANDS: WizardCommand[] = ['get', 'stats', 'chart']
+const WIZARD_TTL_MS = 30 * 60 * 1000 // Abandoned wizards are discarded
+
+// Names that can't be written as command params are not offered, tag values are matched with a regex instead
+const WIZARD_INVALID_OPTIONS: Partial<Record<WizardStep, RegExp>> = {
+  bucket: /"/,
+  measurement: /"/,
+  field: /[",:]/, // Fields of "/chart" are separated by "," and ":"
+  tag: /[\s"=!~|,()]/
+}
+const PENDING_WRITE_TTL_MS = 5 * 60 * 1000 // Unconfirmed writes are discarded, the keyboard is removed when pressed
 const ERROR_PREFIX = '[ERROR]'
 
 enum Command {
   Help = 'help',
   Actions = 'actions',
   Notifications = 'notifications',
+  Stats = 'stats',
   Chart = 'chart',
+  Export = 'export',
+  Flux = 'flux',
+  Write = 'write',
   ActionsAdd = 'actions_add',
   ActionsGet = 'actions_get',
   ActionsRemove = 'actions_remove',
   NotificationsAdd = 'notifications_add',
+  NotificationsDeadman = 'notifications_deadman',
+  NotificationsCompound = 'notifications_compound',
   NotificationsRemove = 'notifications_remove',
+  NotificationsSubscribe = 'notifications_subscribe',
+  NotificationsUnsubscribe = 'notifications_unsubscribe',
+  Schedules = 'schedules',
+  SchedulesAdd = 'schedules_add',
+  SchedulesRemove = 'schedules_remove',
+  Dashboard = 'dashboard',
+  Dashboards = 'dashboards',
+  DashboardsAdd = 'dashboards_add',
+  DashboardsGet = 'dashboards_get',
+  DashboardsRemove = 'dashboards_remove',
   Buckets = 'buckets',
   Measurements = 'measurements',
   Fields = 'fields',
   Tags = 'tags',
   Tag = 'tag',
   Get = 'get',
+  Connections = 'connections',
+  Wizard = 'wizard',
+  Users = 'users',
+  UsersGrant = 'users_grant',
+  UsersRevoke = 'users_revoke',
   Start = 'start'
 }
 
+// Minimum role required by the command, callbacks require the role of their command
+const COMMAND_ROLES: Record<Command, Role> = {
+  [Command.Help]: 'viewer',
+  [Command.Start]: 'viewer',
+  [Command.Buckets]: 'viewer',
+  [Command.Measurements]: 'viewer',
+  [Command.Fields]: 'viewer',
+  [Command.Tags]: 'viewer',
+  [Command.Tag]: 'viewer',
+  [Command.Get]: 'viewer',
+  [Command.Stats]: 'viewer',
+  [Command.Chart]: 'viewer',
+  [Command.Export]: 'viewer',
+  [Command.Connections]: 'viewer',
+  [Command.Wizard]: 'viewer',
+  [Command.Actions]: 'viewer',
+  [Command.ActionsAdd]: 'viewer',
+  [Command.ActionsGet]: 'viewer',
+  [Command.ActionsRemove]: 'viewer',
+  [Command.Schedules]: 'viewer',
+  [Command.SchedulesAdd]: 'viewer',
+  [Command.SchedulesRemove]: 'viewer',
+  [Command.Dashboard]: 'viewer',
+  [Command.Dashboards]: 'viewer',
+  [Command.DashboardsAdd]: 'viewer',
+  [Command.DashboardsGet]: 'viewer',
+  [Command.DashboardsRemove]: 'viewer',
+  [Command.Notifications]: 'alert-manager',
+  [Command.NotificationsAdd]: 'alert-manager',
+  [Command.NotificationsDeadman]: 'alert-manager',
+  [Command.NotificationsCompound]: 'alert-manager',
+  [Command.NotificationsRemove]: 'alert-manager',
+  [Command.NotificationsSubscribe]: 'viewer',
+  [Command.NotificationsUnsubscribe]: 'viewer',
+  [Command.Write]: 'writer',
+  [Command.Flux]: 'writer', // Flux scripts can also write with "to()"
+  [Command.Users]: 'admin',
+  [Command.UsersGrant]: 'admin',
+  [Command.UsersRevoke]: 'admin'
+}
+
 export class InfluxTelegramBot {
   private readonly bot: Telegraf
+  private readonly adminUserIds = new Set(TG_ADMIN_USER_IDS)
   private readonly allowedUsernames = new Set(TG_ALLOWED_USERNAMES)
+  private readonly writerUsernames = new Set([...TG_FLUX_USERNAMES, ...TG_WRITE_USERNAMES])
+  private readonly pendingWrites: Map<string, PendingWrite> = new Map()
+  private readonly pendingWizards: Map<string, PendingWizard> = new Map()
+  private readonly actionConnections: WeakMap<User, string> = new WeakMap() // Saved connections of the running actions
   private readonly intervalReader = new InfluxIntervalReader()
+  private readonly notificationStates = new NotificationStateTracker()
+  private readonly scheduler = new ActionScheduler()
 
   constructor() {
     if (!TG_API_TOKEN) {
@@ -68,19 +256,34 @@ export class InfluxTelegramBot {
     // Validate the user who sent the message
     this.bot.use(async (ctx, next) => {
       const user = ctx.message?.from ?? ctx.callbackQuery?.from
-      const username = user?.username
-      if (!username || !this.allowedUsernames.has(username)) {
+      if (!user || !this.getAccess(user)) {
         // TODO: This is currently triggered by edited messages
         await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-user']}}`))
       } else {
+        // Private chat ID equals the user ID, so users first seen in a group chat are created the same way
         if (ctx.message) {
-          await storage.createUserIfNotExists(ctx.message.from.id, ctx.message.chat.id)
+          await storage.createUserIfNotExists(ctx.message.from.id, ctx.message.from.id)
+        }
+
+        if (ctx.message && (ctx.message.chat.type === 'group' || ctx.message.chat.type === 'supergroup')) {
+          await storage.createGroupChatIfNotExists(ctx.message.chat.id)
         }
 
         await next()
       }
     })
 
+    // Validate the role required by the command
+    this.bot.use(async (ctx, next) => {
+      const user = ctx.message?.from ?? ctx.callbackQuery?.from
+      const command = this.getUpdateCommand(ctx)
+      if (user && command && !hasRole(this.getAccess(user), COMMAND_ROLES[command])) {
+        await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-command']}`))
+      } else {
+        await next()
+      }
+    })
+
     // Log incoming message
     this.bot.use(async (ctx, next) => {
       if (ctx.message && 'text' in ctx.message) {
@@ -110,14 +313,35 @@ export class InfluxTelegramBot {
     this.bot.command(Command.Tags, this.handleGetTags.bind(this))
     this.bot.command(Command.Tag, this.handleGetTagValues.bind(this))
     this.bot.command(Command.Get, this.handleGetValues.bind(this))
+    this.bot.command(Command.Stats, this.handleGetStats.bind(this))
     this.bot.command(Command.Chart, this.handleGetChart.bind(this))
+    this.bot.command(Command.Export, this.handleExport.bind(this))
+    this.bot.command(Command.Flux, this.handleFlux.bind(this))
+    this.bot.command(Command.Write, this.handleWrite.bind(this))
     this.bot.command(Command.Actions, this.handleRunAction.bind(this))
     this.bot.command(Command.ActionsAdd, this.handleAddAction.bind(this))
     this.bot.command(Command.ActionsRemove, this.handleRemoveAction.bind(this))
     this.bot.command(Command.ActionsGet, this.handleGetAction.bind(this))
     this.bot.command(Command.Notifications, this.handleGetNotification.bind(this))
     this.bot.command(Command.NotificationsAdd, this.handleAddNotification.bind(this))
+    this.bot.command(Command.NotificationsDeadman, this.handleAddDeadmanNotification.bind(this))
+    this.bot.command(Command.NotificationsCompound, this.handleAddCompoundNotification.bind(this))
     this.bot.command(Command.NotificationsRemove, this.handleRemoveNotification.bind(this))
+    this.bot.command(Command.NotificationsSubscribe, this.handleSubscribeNotification.bind(this))
+    this.bot.command(Command.NotificationsUnsubscribe, this.handleUnsubscribeNotification.bind(this))
+    this.bot.command(Command.Schedules, this.handleGetSchedule.bind(this))
+    this.bot.command(Command.SchedulesAdd, this.handleAddSchedule.bind(this))
+    this.bot.command(Command.SchedulesRemove, this.handleRemoveSchedule.bind(this))
+    this.bot.command(Command.Dashboard, this.handleShowDashboard.bind(this))
+    this.bot.command(Command.Dashboards, this.handleRunDashboard.bind(this))
+    this.bot.command(Command.DashboardsAdd, this.handleAddDashboard.bind(this))
+    this.bot.command(Command.DashboardsGet, this.handleGetDashboard.bind(this))
+    this.bot.command(Command.DashboardsRemove, this.handleRemoveDashboard.bind(this))
+    this.bot.command(Command.Connections, this.handleConnections.bind(this))
+    this.bot.command(Command.Wizard, this.handleWizard.bind(this))
+    this.bot.command(Command.Users, this.handleGetUsers.bind(this))
+    this.bot.command(Command.UsersGrant, this.handleGrantUser.bind(this))
+    this.bot.command(Command.UsersRevoke, this.handleRevokeUser.bind(this))
 
     // Actions
     this.bot.action(/^actions_run\/.+$/, this.handleRunActionCallback.bind(this))
@@ -125,6 +349,14 @@ export class InfluxTelegramBot {
     this.bot.action(/^actions_get\/.+$/, this.handleGetActionCallback.bind(this))
     this.bot.action(/^notifications_get\/.+$/, this.handleGetNotificationCallback.bind(this))
     this.bot.action(/^notifications_remove\/.+$/, this.handleRemoveNotificationCallback.bind(this))
+    this.bot.action(/^notifications_(subscribe|unsubscribe)\/.+$/, this.handleSubscribeNotificationCallback.bind(this))
+    this.bot.action(/^schedules_get\/.+$/, this.handleGetScheduleCallback.bind(this))
+    this.bot.action(/^schedules_remove\/.+$/, this.handleRemoveScheduleCallback.bind(this))
+    this.bot.action(/^dashboards_run\/.+$/, this.handleRunDashboardCallback.bind(this))
+    this.bot.action(/^dashboards_get\/.+$/, this.handleGetDashboardCallback.bind(this))
+    this.bot.action(/^dashboards_remove\/.+$/, this.handleRemoveDashboardCallback.bind(this))
+    this.bot.action(/^write_(confirm|cancel)\/.+$/, this.handleConfirmWriteCallback.bind(this))
+    this.bot.action(/^wizard_(select|page|done|run|save|cancel)\/.+$/, this.handleWizardCallback.bind(this))
 
     // Unknown
     this.bot.on('text', async ctx => ctx.replyWithMarkdownV2(
@@ -134,12 +366,24 @@ export class InfluxTelegramBot {
     // Notifications
     this.intervalReader.on('data', this.handleNotificationValue.bind(this))
 
-    this.log(`Initialized for users: ${TG_ALLOWED_USERNAMES.join(', ')}`)
+    // Schedules
+    this.scheduler.on('run', this.handleScheduleRun.bind(this))
+
+    this.log(`Initialized for admins: ${TG_ADMIN_USER_IDS.join(', ')}`)
+    if (this.allowedUsernames.size > 0 && this.adminUserIds.size === 0) {
+      this.log('Warning: Legacy usernames are used without TG_ADMIN_USER_IDS, roles can\'t be granted or revoked at runtime')
+    }
   }
 
   async start() {
     await storage.init()
-    this.intervalReader.init(storage.getAllNotifications())
+    const unavailable = await influx.getUnavailableConnections()
+    if (unavailable.length > 0) {
+      this.log(`Unavailable InfluxDB connections: ${unavailable.join(', ')}`)
+    }
+
+    this.intervalReader.init(storage.getAllNotifications().map(toInfluxIntervalRead))
+    this.scheduler.init(storage.getAllSchedules())
     this.bot.launch()
     this.log('Started.')
 
@@ -156,7 +400,10 @@ export class InfluxTelegramBot {
   }
 
   private async handleGetBuckets(ctx: MessageContext) {
-    const buckets = await influx.getBuckets()
+    const [configStr] = this.getCommandParams(ctx.message?.text)
+    const config = InfluxConnectionParamsValidator.parse(this.parseConfig(configStr, ctx.message.from))
+    const access = this.getAccess(ctx.message.from)
+    const buckets = (await influx.getBuckets(config.conn)).filter(b => hasBucketAccess(access, b.name, config.conn))
     await ctx.replyWithMarkdownV2(toMdList(buckets.map(b => b.name), V['influx.buckets']))
   }
 
@@ -169,7 +416,11 @@ export class InfluxTelegramBot {
     }
 
     const [bucket, configStr] = params
-    const config = InfluxTimespanParamsValidator.parse(this.parseConfig(configStr))
+    const config = InfluxTimespanParamsValidator.parse(this.parseConfig(configStr, ctx.message.from))
+    if (!this.hasBucketAccess(ctx.message.from, bucket, config.conn)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
     const measurements = await influx.getMeasurements(bucket, config)
     if (!measurements) {
       return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['influx.measurements-not-found']}`))
@@ -185,7 +436,11 @@ export class InfluxTelegramBot {
     }
 
     const [bucket, measurement, configStr] = params
-    const config = InfluxTimespanParamsValidator.parse(this.parseConfig(configStr))
+    const config = InfluxTimespanParamsValidator.parse(this.parseConfig(configStr, ctx.message.from))
+    if (!this.hasBucketAccess(ctx.message.from, bucket, config.conn)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
     const fields = await influx.getFields(bucket, measurement, config)
     if (!fields) {
       return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['influx.fields-not-found']}}`))
@@ -201,7 +456,11 @@ export class InfluxTelegramBot {
     }
 
     const [bucket, measurement, configStr] = params
-    const config = InfluxTimespanParamsValidator.parse(this.parseConfig(configStr))
+    const config = InfluxTimespanParamsValidator.parse(this.parseConfig(configStr, ctx.message.from))
+    if (!this.hasBucketAccess(ctx.message.from, bucket, config.conn)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
     const tags = await influx.getTags(bucket, measurement, config)
     if (!tags) {
       return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['influx.tags-not-found']}}}`))
@@ -217,7 +476,11 @@ export class InfluxTelegramBot {
     }
 
     const [bucket, measurement, tag, configStr] = params
-    const config = InfluxTimespanParamsValidator.parse(this.parseConfig(configStr))
+    const config = InfluxTimespanParamsValidator.parse(this.parseConfig(configStr, ctx.message.from))
+    if (!this.hasBucketAccess(ctx.message.from, bucket, config.conn)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
     const tagValues = await influx.getTagValues(bucket, measurement, tag, config)
     if (!tagValues) {
       return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['influx.tags-values-not-found']}`))
@@ -234,10 +497,23 @@ export class InfluxTelegramBot {
       )
     }
 
-    const [bucket, measurement, field, whereStr, configStr] = params
+    const [rawBucket, rawMeasurement, rawField, whereStr, configStr] = params
+    const [bucket, measurement, field] = [rawBucket, rawMeasurement, rawField].map(stripQuotes) // Quoted by the wizard
     const where = this.parseWhere(whereStr)
-    const config = InfluxTagParamsValidator.parse(this.parseConfig(configStr))
-    const rows = await influx.getLastValue(bucket, measurement, field, where, config)
+    const config = InfluxReduceParamsValidator.parse(this.parseConfig(configStr, ctx.message.from))
+    if (!this.hasBucketAccess(ctx.message.from, bucket, config.conn)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
+    if (config.fn && !isFluxConnection(config.conn)) {
+      return await ctx.replyWithMarkdownV2(
+        createMdBlock(`${ERROR_PREFIX} ${V['influx.flux-only'](config.conn ?? INFLUX_DEFAULT_CONNECTION)}`)
+      )
+    }
+
+    const rows = config.fn
+      ? await influx.getWindowValue(bucket, measurement, field, where, config.fn, config)
+      : await influx.getLastValue(bucket, measurement, field, where, config)
     if (!rows || rows.length === 0) {
       return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['influx.values-not-found']}`))
     }
@@ -247,41 +523,263 @@ export class InfluxTelegramBot {
     )
   }
 
-  private async handleGetChart(ctx: MessageContext) {
+  private async handleGetStats(ctx: MessageContext) {
     const params = this.getCommandParams(ctx.message?.text)
     if (params.length < 4) {
       return await ctx.replyWithMarkdownV2(
-        this.createUsageText('/chart <type> <bucket> <measurement> <field> <where> [<config>]')
+        this.createUsageText('/stats <bucket> <measurement> <field> <where> [<config>]')
       )
     }
 
-    const [typeStr, bucket, measurement, field, whereStr, configStr] = params
-    const type = z.union([z.literal('line'), z.literal('bar')]).parse(typeStr)
+    const [rawBucket, rawMeasurement, rawField, whereStr, configStr] = params
+    const [bucket, measurement, field] = [rawBucket, rawMeasurement, rawField].map(stripQuotes) // Quoted by the wizard
     const where = this.parseWhere(whereStr)
-    const config = InfluxAggregateParamsValidator.and(ChartConfigValidator).parse(this.parseConfig(configStr))
-    const rows = await influx.getValuesFromTimespan(bucket, measurement, field, where, config)
+    const config = StatsConfigValidator.parse(this.parseConfig(configStr, ctx.message.from))
+    if (!this.hasBucketAccess(ctx.message.from, bucket, config.conn)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
+    if (!isFluxConnection(config.conn)) {
+      return await ctx.replyWithMarkdownV2(
+        createMdBlock(`${ERROR_PREFIX} ${V['influx.flux-only'](config.conn ?? INFLUX_DEFAULT_CONNECTION)}`)
+      )
+    }
+
+    const rows = await influx.getStats(bucket, measurement, field, where, config)
     if (!rows || rows.length === 0) {
       return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['influx.values-not-found']}`))
     }
 
-    const tables = divideToInfluxTables(rows)
-    const source = await createChart(type, tables, config)
-    if (!source) {
-      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.chart-error']}`))
+    await ctx.replyWithMarkdownV2(
+      toInfluxStatsMdList(rows, { header: V['influx.stats'], tags: toArrayOrUndefined(config.tags) })
+    )
+  }
+
+  private async handleGetChart(ctx: MessageContext) {
+    const params = this.getCommandParams(ctx.message?.text)
+    if (params.length < 4) {
+      return await ctx.replyWithMarkdownV2(
+        this.createUsageText('/chart <type> <bucket> <measurement> <field> <where> [<config>]')
+      )
     }
 
-    const caption = toInfluxTableTagMdList(tables, {
-      header: V['telegram.chart-tags'],
-      tags: toArrayOrUndefined(config.tags)
+    const panel = this.parseChartPanel(params, ctx.message.from)
+    if (!this.hasPanelAccess(ctx.message.from, panel)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
+    const photo = await this.createChartPhoto(panel)
+    if (typeof photo === 'string') {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V[photo]}`))
+    }
+
+    await ctx.replyWithPhoto({ source: photo.source }, { caption: photo.caption, parse_mode: 'MarkdownV2' })
+  }
+
+  private async handleExport(ctx: MessageContext) {
+    const params = this.getCommandParams(ctx.message?.text)
+    if (params.length < 5) {
+      return await ctx.replyWithMarkdownV2(
+        this.createUsageText('/export <format> <bucket> <measurement> <field> <where> [<config>]')
+      )
+    }
+
+    const [formatStr, bucket, measurement, fieldStr, whereStr, configStr] = params
+    const format = ExportFormatValidator.parse(formatStr)
+    const fields = this.parseFields(measurement, fieldStr)
+    const where = this.parseWhere(whereStr)
+    const config = InfluxAggregateParamsValidator.parse(this.parseConfig(configStr, ctx.message.from))
+    if (!this.hasBucketAccess(ctx.message.from, bucket, config.conn)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
+    // CSV header needs the tag columns before the rows are streamed
+    let tags = toArrayOrUndefined(config.tags) ?? []
+    if (format === 'csv' && tags.length === 0) {
+      const measurements = [...new Set(fields.map(f => f.measurement))]
+      const measurementTags = await Promise.all(measurements.map(m => influx.getTags(bucket, m, config)))
+      tags = [...new Set(measurementTags.flatMap(t => t ?? []))]
+    }
+
+    // The first row is read before the upload, so that query errors and empty results are replied instead of a broken file
+    const rows = influx.iterateValuesFromTimespan(bucket, fields, where, config)
+    let first: IteratorResult<InfluxRow>
+    try {
+      first = await rows.next()
+    } catch (err) {
+      const message = escapeMdBlock(err instanceof Error ? err.message : `${err}`)
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${createMdHeader(`${ERROR_PREFIX} ${V['influx.query-error']}`)}\n${message}`))
+    }
+
+    if (first.done) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['influx.values-not-found']}`))
+    }
+
+    await ctx.replyWithDocument({
+      source: createExportStream(prependRow(first.value, rows), format, tags),
+      filename: toExportFilename(`${bucket}-${measurement}`, format)
     })
+  }
+
+  private async handleFlux(ctx: MessageContext) {
+    // Flux scripts can't be limited to specific buckets
+    const access = this.getAccess(ctx.message.from)
+    if (access?.role !== 'admin' && access?.buckets) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
+    // Example: "/flux chart\nfrom(bucket: ...)\n  |> range(start: -1h)"
+    const [firstLine, ...lines] = ctx.message.text.split('\n')
+    const [outputStr, configStr] = this.getCommandParams(firstLine)
+    const script = lines.join('\n').trim()
+    if (!script) {
+      return await ctx.replyWithMarkdownV2(this.createUsageText('/flux [table|chart|csv|json|lp] [<config>]\n<script...>'))
+    }
+
+    const output = FluxOutputValidator.parse(outputStr ?? 'table')
+    const config = InfluxConnectionParamsValidator.parse(this.parseConfig(configStr, ctx.message.from))
+    if (!isFluxConnection(config.conn)) {
+      return await ctx.replyWithMarkdownV2(
+        createMdBlock(`${ERROR_PREFIX} ${V['influx.flux-only'](config.conn ?? INFLUX_DEFAULT_CONNECTION)}`)
+      )
+    }
+
+    let result: InfluxFluxResult
+    try {
+      result = await influx.queryFlux(script, config.conn)
+    } catch (err) {
+      const message = escapeMdBlock(err instanceof Error ? err.message : `${err}`)
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${createMdHeader(`${ERROR_PREFIX} ${V['influx.query-error']}`)}\n${message}`))
+    }
+
+    const { rows, truncated } = result
+    if (rows.length === 0) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['influx.values-not-found']}`))
+    }
+
+    const header = truncated ? V['influx.values-truncated'](rows.length) : V['influx.values']
+    switch (output) {
+      case 'table':
+        return await ctx.replyWithMarkdownV2(toInfluxRowMdTable(rows, { header, maxLength: TG_MESSAGE_MAX_LENGTH - 64 }))
+      case 'chart': {
+        const tables = divideToInfluxTables(rows)
+        const source = await createChart('line', tables, {})
+        if (!source) {
+          return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.chart-error']}`))
+        }
+
+        const caption = toInfluxTableTagMdList(tables, { header })
+        return await ctx.replyWithPhoto({ source }, { caption, parse_mode: 'MarkdownV2' })
+      }
+      default: {
+        const tags = [...new Set(rows.flatMap(r => getInfluxTags(r).map(([k]) => k)))]
+        return await ctx.replyWithDocument({
+          source: createExportStream(rows, output, tags),
+          filename: toExportFilename('flux', output)
+        })
+      }
+    }
+  }
+
+  private async handleWrite(ctx: MessageContext) {
+    const params = this.getCommandParams(ctx.message?.text)
+    if (params.length < 4) {
+      return await ctx.replyWithMarkdownV2(this.createUsageText('/write <bucket> <measurement> <tags> <fields> [<config>]'))
+    }
+
+    const [bucket, measurement, tagStr, fieldStr, configStr] = params
+    const point: InfluxPoint = {
+      measurement,
+      tags: InfluxTagSetValidator.parse(tagStr),
+      fields: InfluxFieldSetValidator.parse(fieldStr)
+    }
+
+    const { conn } = InfluxConnectionParamsValidator.parse(this.parseConfig(configStr, ctx.message.from))
+    if (!this.hasBucketAccess(ctx.message.from, bucket, conn)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
+    // The write is confirmed from the inline keyboard
+    const id = uuid4()
+    this.pendingWrites.set(id, { userId: ctx.message.from.id, bucket, point, conn })
+    setTimeout(() => this.pendingWrites.delete(id), PENDING_WRITE_TTL_MS)
+    await ctx.replyWithMarkdownV2(
+      createMdBlock(`${createMdHeader(V['telegram.write-confirm'])}\n${toInfluxBucketStr(bucket, conn)}\n${escapeMdBlock(toInfluxPointStr(point))}`),
+      {
+        reply_markup: {
+          inline_keyboard: [[
+            { text: V['telegram.write-confirm-yes'], callback_data: `write_confirm/${id}` },
+            { text: V['telegram.write-confirm-no'], callback_data: `write_cancel/${id}` }
+          ]]
+        }
+      }
+    )
+  }
+
+  private async handleShowDashboard(ctx: MessageContext) {
+    const params = this.getCommandParams(ctx.message?.text)
+    if (params.length < 1) {
+      return await ctx.replyWithMarkdownV2(this.createUsageText('/dashboard <name>'))
+    }
+
+    const name = stripQuotes(params.join(' '))
+    const dashboard = storage.getDashboards(this.getOwnerId(ctx.message.from, ctx.message.chat)).find(d => d.name === name)
+    if (!dashboard) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.dashboard-not-found']}`))
+    }
+
+    await this.sendDashboard(ctx, ctx.message.from, dashboard)
+  }
+
+  private async handleRunDashboard(ctx: MessageContext) {
+    await ctx.replyWithMarkdownV2(
+      createMdBlock(createMdHeader(V['telegram.dashboards-run'])),
+      { reply_markup: this.createDashboardKeyboard(this.getOwnerId(ctx.message.from, ctx.message.chat), 'run') }
+    )
+  }
+
+  private async handleAddDashboard(ctx: MessageContext) {
+    const params = this.getCommandParams(ctx.message?.text)
+    if (params.length < 6) {
+      return await ctx.replyWithMarkdownV2(
+        this.createUsageText('/dashboards_add <name> <type> <bucket> <measurement> <field> <where> [<config>]')
+      )
+    }
+
+    const [rawName, type, bucket, measurement, field, where, config] = params
+    const chartPanel = this.parseChartPanel(params.slice(1), ctx.message.from) // Validate before saving
+    if (!this.hasPanelAccess(ctx.message.from, chartPanel)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
+    const connection = chartPanel.config.conn ?? INFLUX_DEFAULT_CONNECTION
+    const panel: DashboardPanel = { type, bucket, measurement, field, where, config, connection }
+
+    const ownerId = this.getOwnerId(ctx.message.from, ctx.message.chat)
+    const dashboard = await storage.addDashboardPanel(ownerId, stripQuotes(rawName), panel)
+    await ctx.replyWithMarkdownV2(
+      createMdBlock(`${createMdHeader(V['telegram.dashboard-panel-added'])}\n${dashboard.name} (${dashboard.panels.length})`)
+    )
+  }
+
+  private async handleGetDashboard(ctx: MessageContext) {
+    await ctx.replyWithMarkdownV2(
+      createMdBlock(createMdHeader(V['telegram.dashboards-get'])),
+      { reply_markup: this.createDashboardKeyboard(this.getOwnerId(ctx.message.from, ctx.message.chat), 'get') }
+    )
+  }
 
-    await ctx.replyWithPhoto({ source }, { caption, parse_mode: 'MarkdownV2' })
+  private async handleRemoveDashboard(ctx: MessageContext) {
+    await ctx.replyWithMarkdownV2(
+      createMdBlock(createMdHeader(V['telegram.dashboards-remove'])),
+      { reply_markup: this.createDashboardKeyboard(this.getOwnerId(ctx.message.from, ctx.message.chat), 'remove') }
+    )
   }
 
   private async handleRunAction(ctx: MessageContext) {
     await ctx.replyWithMarkdownV2(
       createMdBlock(createMdHeader(V['telegram.actions-run'])),
-      { reply_markup: this.createActionKeyboard(ctx.message.from.id, 'run') }
+      { reply_markup: this.createActionKeyboard(this.getOwnerId(ctx.message.from, ctx.message.chat), 'run') }
     )
   }
 
@@ -292,123 +790,344 @@ export class InfluxTelegramBot {
       return
     }
 
-    const [rawName, ...rest] = params
+    // Command is taken from the raw text to keep the line breaks of multi-line commands (/flux)
+    const { text } = ctx.message
+    const [rawName] = params
     const name = stripQuotes(rawName)
-    await storage.addAction(ctx.message.from.id, { name, command: stripQuotes(rest.join(' ')) })
+    const command = text.slice(text.indexOf(rawName, text.search(/\s/)) + rawName.length).trim()
+    await storage.addAction(this.getOwnerId(ctx.message.from, ctx.message.chat), {
+      name,
+      command: stripQuotes(command),
+      connection: this.getDefaultConnection(ctx.message.from)
+    })
+
     await ctx.replyWithMarkdownV2(createMdBlock(`${createMdHeader(V['telegram.action-added'])}\n${name}`),)
   }
 
   private async handleRemoveAction(ctx: MessageContext) {
     await ctx.replyWithMarkdownV2(
       createMdBlock(createMdHeader(V['telegram.actions-remove'])),
-      { reply_markup: this.createActionKeyboard(ctx.message.from.id, 'remove') }
+      { reply_markup: this.createActionKeyboard(this.getOwnerId(ctx.message.from, ctx.message.chat), 'remove') }
     )
   }
 
   private async handleGetAction(ctx: MessageContext) {
     await ctx.replyWithMarkdownV2(
       createMdBlock(createMdHeader(V['telegram.actions-get'])),
-      { reply_markup: this.createActionKeyboard(ctx.message.from.id, 'get') }
+      { reply_markup: this.createActionKeyboard(this.getOwnerId(ctx.message.from, ctx.message.chat), 'get') }
     )
   }
 
   private async handleGetNotification(ctx: MessageContext) {
     await ctx.replyWithMarkdownV2(
       createMdBlock(createMdHeader(V['telegram.notifications-get'])),
-      { reply_markup: this.createNotificationKeyboard(ctx.message.from.id, 'get') }
+      { reply_markup: this.createNotificationKeyboard(this.getOwnerId(ctx.message.from, ctx.message.chat), 'get') }
     )
   }
   private async handleAddNotification(ctx: MessageContext) {
     const params = this.getCommandParams(ctx.message?.text)
     if (params.length < 8) {
       await ctx.replyWithMarkdownV2(this.createUsageText(
-        '/notifications_add <name> <operator> <value> <intervalSeconds> <bucket> <measurement> <field> <where>'
+        '/notifications_add <name> <operator> <value> <intervalSeconds> <bucket> <measurement> <field> <where> [<config>]'
       ))
 
       return
     }
 
-    const [rawName, operator, value, intervalSeconds, bucket, measurement, field, where] = params
+    const [rawName, operator, value, intervalSeconds, bucket, measurement, field, where, configStr] = params
     const name = stripQuotes(rawName)
-    const notification = await storage.addNotification(ctx.message.from.id, {
+    const { renotify, cooldown, chart, window, fn, change, conn } = NotificationConfigValidator.parse(
+      this.parseConfig(configStr, ctx.message.from)
+    )
+
+    if (!this.hasBucketAccess(ctx.message.from, bucket, conn)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
+    const base = {
       name,
       operator,
       value: Number(value),
       intervalMs: Number(intervalSeconds) * 1000,
+      renotifyMs: renotify !== undefined ? renotify * 1000 : undefined,
+      cooldownMs: cooldown !== undefined ? cooldown * 1000 : undefined,
+      chartHours: chart,
+      bucket,
+      measurement,
+      field,
+      where: this.parseWhere(where),
+      connection: conn,
+      creatorId: ctx.message.from.id
+    }
+
+    const notification = await storage.addNotification(
+      this.getOwnerId(ctx.message.from, ctx.message.chat),
+      window && change
+        ? { ...base, type: 'change', window, change }
+        : { ...base, type: 'threshold', window, fn: window ? fn ?? 'mean' : undefined }
+    )
+
+    this.intervalReader.create(toInfluxIntervalRead(notification))
+    await ctx.replyWithMarkdownV2(createMdBlock(`${createMdHeader(V['telegram.notification-added'])}\n${name}`),)
+  }
+
+  private async handleAddDeadmanNotification(ctx: MessageContext) {
+    const params = this.getCommandParams(ctx.message?.text)
+    if (params.length < 7) {
+      await ctx.replyWithMarkdownV2(this.createUsageText(
+        '/notifications_deadman <name> <staleMinutes> <intervalSeconds> <bucket> <measurement> <field> <where> [<config>]'
+      ))
+
+      return
+    }
+
+    const [rawName, staleMinutes, intervalSeconds, bucket, measurement, field, where, configStr] = params
+    const name = stripQuotes(rawName)
+    const { renotify, cooldown, chart, conn } = NotificationConfigValidator.parse(this.parseConfig(configStr, ctx.message.from))
+    if (!this.hasBucketAccess(ctx.message.from, bucket, conn)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
+    const notification = await storage.addNotification(this.getOwnerId(ctx.message.from, ctx.message.chat), {
+      type: 'deadman',
+      name,
+      staleMs: Number(staleMinutes) * 60 * 1000,
+      intervalMs: Number(intervalSeconds) * 1000,
+      renotifyMs: renotify !== undefined ? renotify * 1000 : undefined,
+      cooldownMs: cooldown !== undefined ? cooldown * 1000 : undefined,
+      chartHours: chart,
       bucket,
       measurement,
       field,
-      where: this.parseWhere(where)
+      where: this.parseWhere(where),
+      connection: conn,
+      creatorId: ctx.message.from.id
+    })
+
+    this.intervalReader.create(toInfluxIntervalRead(notification))
+    await ctx.replyWithMarkdownV2(createMdBlock(`${createMdHeader(V['telegram.notification-added'])}\n${name}`),)
+  }
+
+  private async handleAddCompoundNotification(ctx: MessageContext) {
+    const params = this.getCommandParams(ctx.message?.text)
+    if (params.length < 5) {
+      await ctx.replyWithMarkdownV2(this.createUsageText(
+        '/notifications_compound <name> <intervalSeconds> <bucket> <where> <expression> [<config>]'
+      ))
+
+      return
+    }
+
+    const [rawName, intervalSeconds, bucket, where, rawExpression, configStr] = params
+    const name = stripQuotes(rawName)
+    const expression = stripQuotes(rawExpression)
+    NotificationExpressionValidator.parse(expression)
+    const { renotify, cooldown, conn } = NotificationConfigValidator.parse(this.parseConfig(configStr, ctx.message.from))
+    if (!this.hasBucketAccess(ctx.message.from, bucket, conn)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-bucket']}`))
+    }
+
+    const notification = await storage.addNotification(this.getOwnerId(ctx.message.from, ctx.message.chat), {
+      type: 'compound',
+      name,
+      expression,
+      intervalMs: Number(intervalSeconds) * 1000,
+      renotifyMs: renotify !== undefined ? renotify * 1000 : undefined,
+      cooldownMs: cooldown !== undefined ? cooldown * 1000 : undefined,
+      bucket,
+      where: this.parseWhere(where),
+      connection: conn,
+      creatorId: ctx.message.from.id
     })
 
-    this.intervalReader.create(notification)
+    this.intervalReader.create(toInfluxIntervalRead(notification))
     await ctx.replyWithMarkdownV2(createMdBlock(`${createMdHeader(V['telegram.notification-added'])}\n${name}`),)
   }
 
   private async handleRemoveNotification(ctx: MessageContext) {
     await ctx.replyWithMarkdownV2(
       createMdBlock(createMdHeader(V['telegram.notifications-remove'])),
-      { reply_markup: this.createNotificationKeyboard(ctx.message.from.id, 'remove') }
+      { reply_markup: this.createNotificationKeyboard(this.getOwnerId(ctx.message.from, ctx.message.chat), 'remove') }
     )
   }
 
-  private async handleRunActionCallback(ctx: Context) {
-    await ctx.answerCbQuery()
-    if (ctx.chat && 'callback_query' in ctx.update && 'data' in ctx.update.callback_query) {
-      const { chat } = ctx
-      const { data, from } = ctx.update.callback_query
-      const actionId = data.split('/')[1]
-      const action = storage.getActions(from.id).find(a => a.id === actionId)
-      if (!action) {
-        await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
-        return
-      }
+  private async handleSubscribeNotification(ctx: MessageContext) {
+    if (this.isGroupChat(ctx.message.chat) && this.getAccess(ctx.message.from)?.role !== 'admin') {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.unauthorized-subscription']}`))
+    }
 
-      await ctx.editMessageText(
-        createMdBlock(`${createMdHeader(V['telegram.action-running'])}\n${action.name}...`),
-        { parse_mode: 'MarkdownV2' }
-      )
+    const notifications = await this.getSubscribableNotifications(ctx.message.from, ctx.message.chat)
+    await ctx.replyWithMarkdownV2(
+      createMdBlock(createMdHeader(V['telegram.notifications-subscribe'])),
+      { reply_markup: this.createSubscriptionKeyboard(notifications, 'subscribe') }
+    )
+  }
 
-      // Trigger action = Telegram command
-      if (chat.type === 'private' || chat.type === 'group' || chat.type === 'supergroup') {
-        const message: Update.New & Update.NonChannel & Message = {
-          message_id: 0,
-          text: action.command,
-          from,
-          chat,
-          date: new Date().getTime(),
-          entities: [{ type: 'bot_command', offset: 0, length: action.command.split(' ')[0].length }]
-        }
+  private async handleUnsubscribeNotification(ctx: MessageContext) {
+    const { id } = ctx.message.chat
+    const notifications = storage.getAllNotifications().filter(n => n.subscribers?.includes(id))
+    await ctx.replyWithMarkdownV2(
+      createMdBlock(createMdHeader(V['telegram.notifications-unsubscribe'])),
+      { reply_markup: this.createSubscriptionKeyboard(notifications, 'unsubscribe') }
+    )
+  }
 
-        await this.bot.handleUpdate({ message, update_id: 0 })
-      }
+  private async handleGetSchedule(ctx: MessageContext) {
+    await ctx.replyWithMarkdownV2(
+      createMdBlock(createMdHeader(V['telegram.schedules-get'])),
+      { reply_markup: this.createScheduleKeyboard(this.getOwnerId(ctx.message.from, ctx.message.chat), 'get') }
+    )
+  }
+
+  private async handleAddSchedule(ctx: MessageContext) {
+    const params = this.getCommandParams(ctx.message?.text)
+    if (params.length < 2) {
+      await ctx.replyWithMarkdownV2(this.createUsageText('/schedules_add <cron> <action>'))
+      return
     }
+
+    const [rawCron, rawActionName] = params
+    const actionName = stripQuotes(rawActionName)
+    const action = storage.getActions(this.getOwnerId(ctx.message.from, ctx.message.chat)).find(a => a.name === actionName)
+    if (!action) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.action-not-found']}`))
+    }
+
+    const schedule = await storage.addSchedule(this.getOwnerId(ctx.message.from, ctx.message.chat), {
+      cron: stripQuotes(rawCron),
+      actionId: action.id,
+      chatId: ctx.message.chat.id,
+      userId: ctx.message.from.id
+    })
+
+    this.scheduler.create(schedule)
+    await ctx.replyWithMarkdownV2(
+      createMdBlock(`${createMdHeader(V['telegram.schedule-added'])}\n${schedule.cron} - ${action.name}`)
+    )
   }
 
-  private async handleRemoveActionCallback(ctx: CallbackContext) {
-    await ctx.answerCbQuery()
-    if ('data' in ctx.update.callback_query) {
-      const { data, from } = ctx.update.callback_query
-      const actionId = data.split('/')[1]
-      const removed = await storage.removeAction(from.id, actionId)
-      if (!removed) {
-        await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
-        return
-      }
+  private async handleRemoveSchedule(ctx: MessageContext) {
+    await ctx.replyWithMarkdownV2(
+      createMdBlock(createMdHeader(V['telegram.schedules-remove'])),
+      { reply_markup: this.createScheduleKeyboard(this.getOwnerId(ctx.message.from, ctx.message.chat), 'remove') }
+    )
+  }
 
-      await ctx.editMessageText(
-        createMdBlock(`${createMdHeader(V['telegram.action-removed'])}\n${removed.name}`),
-        { parse_mode: 'MarkdownV2' }
-      )
+  private async handleConnections(ctx: MessageContext) {
+    const [name] = this.getCommandParams(ctx.message?.text)
+    if (name) {
+      const conn = InfluxConnectionNameValidator.parse(name)
+      await storage.setConnection(ctx.message.from.id, conn !== INFLUX_DEFAULT_CONNECTION ? conn : null)
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${createMdHeader(V['telegram.connection-set'])}\n${conn}`))
     }
+
+    const current = storage.getConnection(ctx.message.from.id) ?? INFLUX_DEFAULT_CONNECTION
+    const connections = getInfluxConnectionNames().map(c => c === current ? `${c} (${V['telegram.connection-selected']})` : c)
+    await ctx.replyWithMarkdownV2(toMdList(connections, V['influx.connections']))
   }
 
-  private async handleGetActionCallback(ctx: CallbackContext) {
-    await ctx.answerCbQuery()
-    if ('data' in ctx.update.callback_query) {
-      const { data, from } = ctx.update.callback_query
+  private async handleWizard(ctx: MessageContext) {
+    const [configStr] = this.getCommandParams(ctx.message?.text)
+    InfluxTimespanParamsValidator.parse(this.parseConfig(configStr, ctx.message.from)) // Validate before the steps
+
+    const id = uuid4()
+    const wizard: PendingWizard = {
+      userId: ctx.message.from.id,
+      step: 'command',
+      options: WIZARD_COMMANDS,
+      configStr: configStr ?? '',
+      where: []
+    }
+
+    this.pendingWizards.set(id, wizard)
+    setTimeout(() => this.pendingWizards.delete(id), WIZARD_TTL_MS)
+    await ctx.replyWithMarkdownV2(this.createWizardText(wizard), { reply_markup: this.createWizardKeyboard(id, wizard) })
+  }
+
+  private async handleGetUsers(ctx: MessageContext) {
+    const users = storage.getUsers().flatMap(u => u.access
+      ? `${u.id}: ${u.access.role}${u.access.buckets ? ` (${u.access.buckets.join(', ')})` : ''}`
+      : []
+    )
+
+    await ctx.replyWithMarkdownV2(toMdList([...TG_ADMIN_USER_IDS.map(id => `${id}: admin (env)`), ...users], V['telegram.users']))
+  }
+
+  private async handleGrantUser(ctx: MessageContext) {
+    const params = this.getCommandParams(ctx.message?.text)
+    if (params.length < 2) {
+      return await ctx.replyWithMarkdownV2(this.createUsageText('/users_grant <userId> <role> [<buckets>]'))
+    }
+
+    const [userIdStr, roleStr, bucketStr] = params
+    const userId = z.coerce.number().int().parse(userIdStr)
+    const access: UserAccess = { role: RoleValidator.parse(roleStr), buckets: bucketStr?.split(',') }
+    await storage.setAccess(userId, access)
+    await ctx.replyWithMarkdownV2(
+      createMdBlock(`${createMdHeader(V['telegram.user-granted'])}\n${userId}: ${access.role}${bucketStr ? ` (${bucketStr})` : ''}`)
+    )
+  }
+
+  private async handleRevokeUser(ctx: MessageContext) {
+    const params = this.getCommandParams(ctx.message?.text)
+    if (params.length < 1) {
+      return await ctx.replyWithMarkdownV2(this.createUsageText('/users_revoke <userId>'))
+    }
+
+    const userId = z.coerce.number().int().parse(params[0])
+    if (!storage.getAccess(userId)) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${ERROR_PREFIX} ${V['telegram.user-not-found']}`))
+    }
+
+    await storage.setAccess(userId, null)
+    await ctx.replyWithMarkdownV2(createMdBlock(`${createMdHeader(V['telegram.user-revoked'])}\n${userId}`))
+  }
+
+  private async handleRunActionCallback(ctx: Context) {
+    await ctx.answerCbQuery()
+    if (ctx.chat && 'callback_query' in ctx.update && 'data' in ctx.update.callback_query) {
+      const { chat } = ctx
+      const { data, from } = ctx.update.callback_query
       const actionId = data.split('/')[1]
-      const action = storage.getActions(from.id).find(a => a.id === actionId)
+      const action = storage.getActions(this.getOwnerId(from, ctx.chat)).find(a => a.id === actionId)
+      if (!action) {
+        await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
+        return
+      }
+
+      await ctx.editMessageText(
+        createMdBlock(`${createMdHeader(V['telegram.action-running'])}\n${action.name}...`),
+        { parse_mode: 'MarkdownV2' }
+      )
+
+      await this.runCommand(action.command, from, chat, action.connection)
+    }
+  }
+
+  private async handleRemoveActionCallback(ctx: CallbackContext) {
+    await ctx.answerCbQuery()
+    if ('data' in ctx.update.callback_query) {
+      const { data, from } = ctx.update.callback_query
+      const actionId = data.split('/')[1]
+      const removed = await storage.removeAction(this.getOwnerId(from, ctx.chat), actionId)
+      if (!removed) {
+        await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
+        return
+      }
+
+      await ctx.editMessageText(
+        createMdBlock(`${createMdHeader(V['telegram.action-removed'])}\n${removed.name}`),
+        { parse_mode: 'MarkdownV2' }
+      )
+    }
+  }
+
+  private async handleGetActionCallback(ctx: CallbackContext) {
+    await ctx.answerCbQuery()
+    if ('data' in ctx.update.callback_query) {
+      const { data, from } = ctx.update.callback_query
+      const actionId = data.split('/')[1]
+      const action = storage.getActions(this.getOwnerId(from, ctx.chat)).find(a => a.id === actionId)
       if (!action) {
         await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
         return
@@ -426,15 +1145,17 @@ export class InfluxTelegramBot {
     if ('data' in ctx.update.callback_query) {
       const { data, from } = ctx.update.callback_query
       const notificationId = data.split('/')[1]
-      const notification = storage.getNotifications(from.id).find(a => a.id === notificationId)
+      const notification = storage.getNotifications(this.getOwnerId(from, ctx.chat)).find(a => a.id === notificationId)
       if (!notification) {
         await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
         return
       }
 
-      const { name, id, ...rest } = notification
+      const { name, id, where, ...rest } = notification
       await ctx.editMessageText(
-        createMdBlock(`${createMdHeader(V['telegram.notification'](name))}\n${formatObject(rest)}`),
+        createMdBlock(
+          `${createMdHeader(V['telegram.notification'](name))}\n${formatObject({ ...rest, where: toInfluxWhereStr(where) })}`
+        ),
         { parse_mode: 'MarkdownV2' }
       )
     }
@@ -445,12 +1166,15 @@ export class InfluxTelegramBot {
     if ('data' in ctx.update.callback_query) {
       const { data, from } = ctx.update.callback_query
       const notificationId = data.split('/')[1]
-      const removed = await storage.removeNotification(from.id, notificationId)
+      const removed = await storage.removeNotification(this.getOwnerId(from, ctx.chat), notificationId)
       if (!removed) {
         await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
         return
       }
 
+      this.intervalReader.remove(removed.id)
+      this.notificationStates.remove(removed.id)
+
       await ctx.editMessageText(
         createMdBlock(`${createMdHeader(V['telegram.notification-removed'])}\n${removed.name}`),
         { parse_mode: 'MarkdownV2' }
@@ -458,36 +1182,492 @@ export class InfluxTelegramBot {
     }
   }
 
-  private async handleNotificationValue(data: InfluxIntervalReadData) {
-    const notification = storage.getAllNotifications().find(n => n.id === data.id)
-    if (notification && data.rows.length > 0) {
-      const row = data.rows[0]
-      const func = getValueOperatorFunc(notification)
-      if (!func(row)) {
+  private async handleSubscribeNotificationCallback(ctx: CallbackContext) {
+    await ctx.answerCbQuery()
+    if (ctx.chat && 'data' in ctx.update.callback_query) {
+      const { chat } = ctx
+      const { data, from } = ctx.update.callback_query
+      const [method, notificationId] = data.split('/')
+      const subscribe = method === 'notifications_subscribe'
+      const notifications = subscribe
+        ? await this.getSubscribableNotifications(from, chat)
+        : storage.getAllNotifications().filter(n => n.subscribers?.includes(chat.id))
+
+      const notification = notifications.find(n => n.id === notificationId)
+      const updated = notification ? await storage.setNotificationSubscribed(notification.id, chat.id, subscribe) : null
+      if (!updated) {
+        await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
         return
       }
 
-      const user = storage.getNotificationUser(notification.id)
-      if (!user) {
+      await ctx.editMessageText(
+        createMdBlock(`${createMdHeader(V[`telegram.notification-${subscribe ? 'subscribed' : 'unsubscribed'}`])}\n${updated.name}`),
+        { parse_mode: 'MarkdownV2' }
+      )
+    }
+  }
+
+  private async handleGetScheduleCallback(ctx: CallbackContext) {
+    await ctx.answerCbQuery()
+    if ('data' in ctx.update.callback_query) {
+      const { data, from } = ctx.update.callback_query
+      const scheduleId = data.split('/')[1]
+      const schedule = storage.getSchedules(this.getOwnerId(from, ctx.chat)).find(s => s.id === scheduleId)
+      if (!schedule) {
+        await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
         return
       }
 
-      const builder: (string | number)[] = [
-        createMdHeader(V['telegram.notification'](notification.name)),
-        `${row._value}`,
-        `(${toInfluxTimestampDistanceMd(row)})`
-      ]
+      const action = storage.getActions(this.getOwnerId(from, ctx.chat)).find(a => a.id === schedule.actionId)
+      await ctx.editMessageText(
+        createMdBlock(`${createMdHeader(V['telegram.schedule'](schedule.cron))}\n${action?.command ?? '-'}`),
+        { parse_mode: 'MarkdownV2' }
+      )
+    }
+  }
 
-      const message = createMdBlock(builder.join('\n'))
-      await this.bot.telegram.sendMessage(user.chatId, message, { parse_mode: 'MarkdownV2' })
-      this.intervalReader.remove(data.id)
-      storage.removeNotification(user.id, notification.id)
-    } else {
+  private async handleRemoveScheduleCallback(ctx: CallbackContext) {
+    await ctx.answerCbQuery()
+    if ('data' in ctx.update.callback_query) {
+      const { data, from } = ctx.update.callback_query
+      const scheduleId = data.split('/')[1]
+      const removed = await storage.removeSchedule(this.getOwnerId(from, ctx.chat), scheduleId)
+      if (!removed) {
+        await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
+        return
+      }
+
+      this.scheduler.remove(removed.id)
+      await ctx.editMessageText(
+        createMdBlock(`${createMdHeader(V['telegram.schedule-removed'])}\n${removed.cron}`),
+        { parse_mode: 'MarkdownV2' }
+      )
+    }
+  }
+
+  private async handleRunDashboardCallback(ctx: CallbackContext) {
+    await ctx.answerCbQuery()
+    if ('data' in ctx.update.callback_query) {
+      const { data, from } = ctx.update.callback_query
+      const dashboardId = data.split('/')[1]
+      const dashboard = storage.getDashboards(this.getOwnerId(from, ctx.chat)).find(d => d.id === dashboardId)
+      if (!dashboard) {
+        await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
+        return
+      }
+
+      await ctx.editMessageText(
+        createMdBlock(`${createMdHeader(V['telegram.action-running'])}\n${dashboard.name}...`),
+        { parse_mode: 'MarkdownV2' }
+      )
+
+      await this.sendDashboard(ctx, from, dashboard)
+    }
+  }
+
+  private async handleGetDashboardCallback(ctx: CallbackContext) {
+    await ctx.answerCbQuery()
+    if ('data' in ctx.update.callback_query) {
+      const { data, from } = ctx.update.callback_query
+      const dashboardId = data.split('/')[1]
+      const dashboard = storage.getDashboards(this.getOwnerId(from, ctx.chat)).find(d => d.id === dashboardId)
+      if (!dashboard) {
+        await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
+        return
+      }
+
+      const panels = dashboard.panels.map(p => [p.type, p.bucket, p.measurement, p.field, p.where, p.config ?? ''].join(' '))
+      await ctx.editMessageText(
+        createMdBlock(`${createMdHeader(V['telegram.dashboard'](dashboard.name))}\n${panels.join('\n')}`),
+        { parse_mode: 'MarkdownV2' }
+      )
+    }
+  }
+
+  private async handleRemoveDashboardCallback(ctx: CallbackContext) {
+    await ctx.answerCbQuery()
+    if ('data' in ctx.update.callback_query) {
+      const { data, from } = ctx.update.callback_query
+      const dashboardId = data.split('/')[1]
+      const removed = await storage.removeDashboard(this.getOwnerId(from, ctx.chat), dashboardId)
+      if (!removed) {
+        await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
+        return
+      }
+
+      await ctx.editMessageText(
+        createMdBlock(`${createMdHeader(V['telegram.dashboard-removed'])}\n${removed.name}`),
+        { parse_mode: 'MarkdownV2' }
+      )
+    }
+  }
+
+  private async handleConfirmWriteCallback(ctx: CallbackContext) {
+    await ctx.answerCbQuery()
+    if ('data' in ctx.update.callback_query) {
+      const { data, from } = ctx.update.callback_query
+      const [method, id] = data.split('/')
+      const write = this.pendingWrites.get(id)
+      if (!write || write.userId !== from.id || !this.hasBucketAccess(from, write.bucket, write.conn)) {
+        await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
+        return
+      }
+
+      this.pendingWrites.delete(id)
+      const { bucket, point, conn } = write
+      if (method === 'write_cancel') {
+        await ctx.editMessageText(
+          createMdBlock(`${createMdHeader(V['telegram.write-cancelled'])}\n${escapeMdBlock(toInfluxPointStr(point))}`),
+          { parse_mode: 'MarkdownV2' }
+        )
+
+        return
+      }
+
+      const written = await influx.writePoint(bucket, point, conn)
+      await ctx.editMessageText(
+        written
+          ? createMdBlock(`${createMdHeader(V['telegram.write-done'])}\n${toInfluxBucketStr(bucket, conn)}\n${escapeMdBlock(toInfluxPointStr(point))}`)
+          : createMdBlock(`${ERROR_PREFIX} ${V['influx.bucket-not-found']}`),
+        { parse_mode: 'MarkdownV2' }
+      )
+    }
+  }
+
+  private async handleWizardCallback(ctx: CallbackContext) {
+    await ctx.answerCbQuery()
+    if ('data' in ctx.update.callback_query) {
+      const { data, from } = ctx.update.callback_query
+      const [method, id, indexStr] = data.split('/')
+      const wizard = this.pendingWizards.get(id)
+      if (!wizard || wizard.userId !== from.id) {
+        await ctx.deleteMessage(ctx.update.callback_query.message?.message_id)
+        return
+      }
+
+      const command = this.toWizardCommand(wizard)
+      switch (method) {
+        case 'wizard_cancel': {
+          this.pendingWizards.delete(id)
+          return await ctx.editMessageText(
+            createMdBlock(`${createMdHeader(V['telegram.wizard-cancelled'])}\n${escapeMdBlock(command)}`),
+            { parse_mode: 'MarkdownV2' }
+          )
+        }
+        case 'wizard_run': {
+          this.pendingWizards.delete(id)
+          await ctx.editMessageText(
+            createMdBlock(`${createMdHeader(V['telegram.action-running'])}\n${escapeMdBlock(command)}`),
+            { parse_mode: 'MarkdownV2' }
+          )
+
+          if (ctx.chat) {
+            await this.runCommand(command, from, ctx.chat)
+          }
+
+          return
+        }
+        case 'wizard_save': {
+          this.pendingWizards.delete(id)
+          const name = [wizard.command, wizard.type, wizard.measurement, wizard.field].filter(p => !!p).join(' ')
+          await storage.addAction(this.getOwnerId(from, ctx.chat), { name, command, connection: this.getDefaultConnection(from) })
+          return await ctx.editMessageText(
+            createMdBlock(`${createMdHeader(V['telegram.action-added'])}\n${name}\n${escapeMdBlock(command)}`),
+            { parse_mode: 'MarkdownV2' }
+          )
+        }
+      }
+
+      const value = wizard.options[Number(indexStr)]
+      if (method === 'wizard_select' && value === undefined) {
+        return
+      }
+
+      if (method === 'wizard_page') {
+        const page = ((wizard.page ?? 0) + 1) % Math.ceil(wizard.options.length / TG_KEYBOARD_MAX_OPTIONS)
+        this.pendingWizards.set(id, { ...wizard, page })
+        return await ctx.editMessageText(
+          this.createWizardText({ ...wizard, page }),
+          { parse_mode: 'MarkdownV2', reply_markup: this.createWizardKeyboard(id, { ...wizard, page }) }
+        )
+      }
+
+      const step: PendingWizard | null = method === 'wizard_done'
+        ? { ...wizard, step: 'done', options: [] }
+        : await this.getNextWizardStep(wizard, value, from)
+
+      const next = step && { ...step, page: undefined }
+
+      if (!next) {
+        this.pendingWizards.delete(id)
+        return await ctx.editMessageText(
+          createMdBlock(`${ERROR_PREFIX} ${V['telegram.wizard-not-found'](value)}`),
+          { parse_mode: 'MarkdownV2' }
+        )
+      }
+
+      this.pendingWizards.set(id, next)
+      await ctx.editMessageText(
+        this.createWizardText(next),
+        { parse_mode: 'MarkdownV2', reply_markup: this.createWizardKeyboard(id, next) }
+      )
+    }
+  }
+
+  private async handleNotificationValue(data: InfluxIntervalReadData) {
+    const notification = storage.getAllNotifications().find(n => n.id === data.id)
+    const owner = notification ? storage.getNotificationOwner(notification.id) : null
+    if (!notification || !owner) {
       this.log('Unknown notification (removing...)', data.id)
       this.intervalReader.remove(data.id)
+      this.notificationStates.remove(data.id)
+      return
+    }
+
+    const events: [NotificationEvent, NotificationResult][] = []
+    const results = evaluateNotification(notification, data.rows)
+    for (const result of results) {
+      const event = this.notificationStates.update(notification, result.series ?? '', result.triggered)
+      if (event) {
+        events.push([event, result])
+      }
+    }
+
+    // Series that stopped reporting would stay firing forever
+    for (const series of this.notificationStates.resolveMissing(notification, results.map(r => r.series ?? ''))) {
+      events.push(['resolved', { series: series || undefined, triggered: false, lines: [V['influx.values-not-found']] }])
+    }
+
+    if (events.length === 0) {
+      return
+    }
+
+    // Access might have been revoked after the notification was added or subscribed, private chat IDs are user IDs.
+    // Notifications created before the creator was saved are only checked for the subscribed users.
+    const { bucket, connection, creatorId } = notification
+    const hasAccess = async (userId: number) => hasBucketAccess(await this.getUserAccess(userId), bucket, connection)
+    if (creatorId !== undefined && !await hasAccess(creatorId)) {
+      this.log('Notification creator has no access (skipping...)', notification.id)
+      return
+    }
+
+    const chatIds: number[] = []
+    for (const chatId of new Set([owner.chatId, ...notification.subscribers ?? []])) {
+      if (chatId < 0 || await hasAccess(chatId)) {
+        chatIds.push(chatId)
+      }
+    }
+
+    const message = createNotificationMessage(notification, events)
+    const source = events.some(([e]) => e !== 'resolved')
+      ? await createNotificationChart(notification).catch(err => {
+        this.log('Notification chart error:', err)
+        return null
+      })
+      : null
+
+    // One failing chat (e.g. the bot was removed from it) doesn't prevent notifying the others
+    for (const chatId of chatIds) {
+      await this.sendNotificationMessage(chatId, message, source).catch(err => {
+        this.log(`Notification error (chat: ${chatId}):`, err)
+      })
+    }
+  }
+
+  private async handleScheduleRun(data: ActionScheduleRunData) {
+    const schedule = storage.getAllSchedules().find(s => s.id === data.id)
+    const owner = schedule ? storage.getScheduleOwner(schedule.id) : null
+    if (!schedule || !owner) {
+      this.log('Unknown schedule (removing...)', data.id)
+      this.scheduler.remove(data.id)
+      return
+    }
+
+    const action = storage.getActions(owner.id).find(a => a.id === schedule.actionId)
+    if (!action) {
+      this.log('Scheduled action not found (removing...)', data.id)
+      this.scheduler.remove(schedule.id)
+      await storage.removeSchedule(owner.id, schedule.id)
+      return
+    }
+
+    try {
+      const chat = await this.bot.telegram.getChat(schedule.chatId)
+      const member = await this.bot.telegram.getChatMember(schedule.chatId, schedule.userId ?? owner.id)
+      await this.runCommand(action.command, member.user, chat, action.connection)
+    } catch (err) {
+      this.log('Scheduled action error:', err)
+    }
+  }
+
+  private async sendNotificationMessage(chatId: number, message: string, source: Buffer | null) {
+    if (!source) {
+      await this.bot.telegram.sendMessage(chatId, message, { parse_mode: 'MarkdownV2' })
+    } else if (message.length > TG_CAPTION_MAX_LENGTH) {
+      await this.bot.telegram.sendMessage(chatId, message, { parse_mode: 'MarkdownV2' })
+      await this.bot.telegram.sendPhoto(chatId, { source })
+    } else {
+      await this.bot.telegram.sendPhoto(chatId, { source }, { caption: message, parse_mode: 'MarkdownV2' })
     }
   }
 
+  // Trigger action = Telegram command, saved actions use their connection instead of the default connection of the user
+  private async runCommand(command: string, from: User, chat: Chat, connection?: string) {
+    if (chat.type === 'private' || chat.type === 'group' || chat.type === 'supergroup') {
+      const user = { ...from }
+      if (connection) {
+        this.actionConnections.set(user, connection)
+      }
+
+      const message: Update.New & Update.NonChannel & Message = {
+        message_id: 0,
+        text: command,
+        from: user,
+        chat,
+        date: new Date().getTime(),
+        entities: [{ type: 'bot_command', offset: 0, length: command.split(/\s/)[0].length }]
+      }
+
+      await this.bot.handleUpdate({ message, update_id: 0 })
+    }
+  }
+
+  // Every panel is sent as a photo of the same media group
+  // Failed panels are listed after the photos, or instead of them if every panel failed
+  private async sendDashboard(ctx: Context, user: User, dashboard: Dashboard) {
+    const photos: ChartPhoto[] = []
+    const failed: string[] = []
+    for (const [i, panel] of dashboard.panels.entries()) {
+      let photo: ChartPhoto | ChartPhotoError | 'telegram.unauthorized-bucket' | 'influx.query-error'
+      try {
+        const chartPanel = this.parseChartPanel([
+          panel.type, panel.bucket, panel.measurement, panel.field, panel.where, panel.config ?? ''
+        ], user, panel.connection)
+
+        // Bucket access might have been revoked after the panel was added
+        photo = this.hasPanelAccess(user, chartPanel) ? await this.createChartPhoto(chartPanel) : 'telegram.unauthorized-bucket'
+      } catch (err) {
+        this.log('Dashboard panel error:', err)
+        photo = 'influx.query-error'
+      }
+
+      if (typeof photo === 'string') {
+        failed.push(`${i + 1}. ${panel.type} ${panel.measurement} ${panel.field}: ${V[photo]}`)
+      } else {
+        photos.push(photo)
+      }
+    }
+
+    const failedText = escapeMdBlock(failed.join('\n'))
+    if (photos.length === 0) {
+      return await ctx.replyWithMarkdownV2(createMdBlock(`${createMdHeader(`${ERROR_PREFIX} ${V['telegram.chart-error']}`)}\n${failedText}`))
+    }
+
+    if (photos.length === 1) {
+      const [{ source, caption }] = photos
+      await ctx.replyWithPhoto({ source }, { caption, parse_mode: 'MarkdownV2' })
+    } else {
+      await ctx.replyWithMediaGroup(photos.map(({ source, caption }) => ({
+        type: 'photo',
+        media: { source },
+        caption,
+        parse_mode: 'MarkdownV2'
+      })))
+    }
+
+    if (failed.length > 0) {
+      await ctx.replyWithMarkdownV2(createMdBlock(`${createMdHeader(V['telegram.dashboard-panels-failed'])}\n${failedText}`))
+    }
+  }
+
+  private async createChartPhoto(panel: ChartPanel): Promise<ChartPhoto | ChartPhotoError> {
+    const { type, bucket, fields, where, config } = panel
+    const rows = await influx.getValuesFromTimespan(bucket, fields, where, config)
+    if (!rows || rows.length === 0) {
+      return 'influx.values-not-found'
+    }
+
+    const comparedRows = config.compare
+      ? await influx.getValuesFromTimespan(bucket, fields, where, config, config.compare)
+      : null
+
+    const annotations = config.annotations
+      ? await influx.getEvents(config.annotations.bucket, config.annotations.measurement, config)
+      : null
+
+    const tables = divideToInfluxTables(rows)
+    const compared = comparedRows ? divideToInfluxTables(comparedRows) : undefined
+    const source = await createChart(type, tables, config, { compared, annotations: annotations ?? undefined })
+    if (!source) {
+      return 'telegram.chart-error'
+    }
+
+    const caption = toInfluxTableTagMdList(tables, {
+      header: V['telegram.chart-tags'],
+      tags: toArrayOrUndefined(config.tags),
+      compared
+    })
+
+    return { source, caption }
+  }
+
+  // Returns null if the selected value has nothing to select from
+  private async getNextWizardStep(wizard: PendingWizard, value: string, user: User): Promise<PendingWizard | null> {
+    const config = InfluxTimespanParamsValidator.parse(this.parseConfig(wizard.configStr, user))
+    switch (wizard.step) {
+      case 'command': {
+        const command = value as WizardCommand
+        return command === 'chart'
+          ? { ...wizard, step: 'type', options: CHART_TYPES, command }
+          : this.getWizardBucketStep({ ...wizard, command }, config.conn, user)
+      }
+      case 'type':
+        return this.getWizardBucketStep({ ...wizard, type: value as ChartType }, config.conn, user)
+      case 'bucket': {
+        if (!this.hasBucketAccess(user, value, config.conn)) {
+          return null
+        }
+
+        const measurements = await influx.getMeasurements(value, config)
+        const options = this.toWizardOptions('measurement', measurements?.map(m => m._measurement) ?? [])
+        return options.length > 0 ? { ...wizard, step: 'measurement', options, bucket: value } : null
+      }
+      case 'measurement': {
+        const fields = await influx.getFields(wizard.bucket as string, value, config)
+        const options = this.toWizardOptions('field', fields ?? [])
+        return options.length > 0 ? { ...wizard, step: 'field', options, measurement: value } : null
+      }
+      case 'field': {
+        const tags = await influx.getTags(wizard.bucket as string, wizard.measurement as string, config)
+        const options = tags && this.toWizardOptions('tag', tags)
+        return options ? { ...wizard, step: 'tag', options, field: value, tags: options } : null
+      }
+      case 'tag': {
+        const tagValues = await influx.getTagValues(wizard.bucket as string, wizard.measurement as string, value, config)
+        return tagValues && tagValues.length > 0
+          ? { ...wizard, step: 'tag-value', options: tagValues, tag: value }
+          : null
+      }
+      case 'tag-value': {
+        const tags = (wizard.tags ?? []).filter(t => t !== wizard.tag)
+        return { ...wizard, step: 'tag', options: tags, tags, tag: undefined, where: [...wizard.where, [wizard.tag as string, value]] }
+      }
+      case 'done':
+        return wizard // Only the controls are shown
+    }
+  }
+
+  private async getWizardBucketStep(wizard: PendingWizard, conn: string | undefined, user: User): Promise<PendingWizard> {
+    const access = this.getAccess(user)
+    const buckets = (await influx.getBuckets(conn)).filter(b => hasBucketAccess(access, b.name, conn))
+    return { ...wizard, step: 'bucket', options: this.toWizardOptions('bucket', buckets.map(b => b.name)) }
+  }
+
+  private toWizardOptions(step: WizardStep, options: string[]): string[] {
+    const invalid = WIZARD_INVALID_OPTIONS[step]
+    return invalid ? options.filter(o => !invalid.test(o)) : options
+  }
+
   private createActionKeyboard(userId: number, method: 'run' | 'remove' | 'get'): InlineKeyboardMarkup {
     const actions = storage.getActions(userId)
     const buttons: InlineKeyboardButton[] = actions.map(a => ({
@@ -498,6 +1678,16 @@ export class InfluxTelegramBot {
     return { inline_keyboard: buttons.map(b => [b]) }
   }
 
+  private createDashboardKeyboard(userId: number, method: 'run' | 'remove' | 'get'): InlineKeyboardMarkup {
+    const dashboards = storage.getDashboards(userId)
+    const buttons: InlineKeyboardButton[] = dashboards.map(d => ({
+      text: d.name,
+      callback_data: `dashboards_${method}/${d.id}`
+    }))
+
+    return { inline_keyboard: buttons.map(b => [b]) }
+  }
+
   private createNotificationKeyboard(userId: number, method: 'remove' | 'get'): InlineKeyboardMarkup {
     const notifications = storage.getNotifications(userId)
     const buttons: InlineKeyboardButton[] = notifications.map(n => ({
@@ -508,22 +1698,187 @@ export class InfluxTelegramBot {
     return { inline_keyboard: buttons.map(b => [b]) }
   }
 
+  private createSubscriptionKeyboard(
+    notifications: Notification[],
+    method: 'subscribe' | 'unsubscribe'
+  ): InlineKeyboardMarkup {
+    const buttons: InlineKeyboardButton[] = notifications.map(n => ({
+      text: n.name,
+      callback_data: `notifications_${method}/${n.id}`
+    }))
+
+    return { inline_keyboard: buttons.map(b => [b]) }
+  }
+
+  private createScheduleKeyboard(userId: number, method: 'remove' | 'get'): InlineKeyboardMarkup {
+    const actions = storage.getActions(userId)
+    const buttons: InlineKeyboardButton[] = storage.getSchedules(userId).map(s => ({
+      text: `${s.cron} - ${actions.find(a => a.id === s.actionId)?.name ?? '-'}`,
+      callback_data: `schedules_${method}/${s.id}`
+    }))
+
+    return { inline_keyboard: buttons.map(b => [b]) }
+  }
+
+  private createWizardKeyboard(id: string, wizard: PendingWizard): InlineKeyboardMarkup {
+    const start = (wizard.page ?? 0) * TG_KEYBOARD_MAX_OPTIONS
+    const buttons: InlineKeyboardButton[] = wizard.options.slice(start, start + TG_KEYBOARD_MAX_OPTIONS).map((o, i) => ({
+      text: o,
+      callback_data: `wizard_select/${id}/${start + i}`
+    }))
+
+    const cancel: InlineKeyboardButton = { text: V['telegram.wizard-cancel'], callback_data: `wizard_cancel/${id}` }
+    const controls: InlineKeyboardButton[] = []
+    if (wizard.options.length > TG_KEYBOARD_MAX_OPTIONS) {
+      controls.push({ text: V['telegram.wizard-more'], callback_data: `wizard_page/${id}` })
+    }
+
+    if (wizard.step === 'tag') {
+      controls.push({ text: V['telegram.wizard-tags-done'], callback_data: `wizard_done/${id}` })
+    } else if (wizard.step === 'done') {
+      controls.push(
+        { text: V['telegram.wizard-run'], callback_data: `wizard_run/${id}` },
+        { text: V['telegram.wizard-save'], callback_data: `wizard_save/${id}` }
+      )
+    }
+
+    return { inline_keyboard: [...buttons.map(b => [b]), [...controls, cancel]] }
+  }
+
+  // Entities saved in a group chat are shared by its members, private chats use the entities of the user
+  private getOwnerId(user: User, chat?: Chat): number {
+    return chat && this.isGroupChat(chat) ? chat.id : user.id
+  }
+
+  private isGroupChat(chat: Chat): boolean {
+    return chat.type === 'group' || chat.type === 'supergroup'
+  }
+
+  // Notifications of the user and the group chats the user is a member of, except the ones of the chat itself.
+  // Members of a group chat might not have access to the bucket, so only admins can subscribe group chats.
+  private async getSubscribableNotifications(user: User, chat: Chat): Promise<Notification[]> {
+    if (this.isGroupChat(chat) && this.getAccess(user)?.role !== 'admin') {
+      return []
+    }
+
+    const ownerIds = [user.id]
+    for (const chatId of storage.getGroupChatIds()) {
+      const member = await this.bot.telegram.getChatMember(chatId, user.id).catch(() => null)
+      if (member && member.status !== 'left' && member.status !== 'kicked') {
+        ownerIds.push(chatId)
+      }
+    }
+
+    return ownerIds
+      .filter(id => id !== chat.id)
+      .flatMap(id => storage.getNotifications(id))
+      .filter(n => !n.subscribers?.includes(chat.id) && this.hasBucketAccess(user, n.bucket, n.connection))
+  }
+
+  // Admins from the environment can't be revoked at runtime, roles granted at runtime override the legacy usernames
+  private getAccess(user: Pick<User, 'id' | 'username'>): UserAccess | null {
+    if (this.adminUserIds.has(user.id)) {
+      return { role: 'admin' }
+    }
+
+    // Legacy flux and write usernames had to be allowed as well
+    const access = storage.getAccess(user.id)
+    if (access || !user.username || !this.allowedUsernames.has(user.username)) {
+      return access
+    }
+
+    return { role: this.writerUsernames.has(user.username) ? 'writer' : 'alert-manager' }
+  }
+
+  // Usernames of the legacy env variables are only known from the private chat of the user
+  private async getUserAccess(userId: number): Promise<UserAccess | null> {
+    const access = this.getAccess({ id: userId })
+    if (access) {
+      return access
+    }
+
+    const chat = await this.bot.telegram.getChat(userId).catch(() => null)
+    return this.getAccess({ id: userId, username: chat && 'username' in chat ? chat.username : undefined })
+  }
+
+  private hasBucketAccess(user: User, bucket: string, conn?: string): boolean {
+    return hasBucketAccess(this.getAccess(user), bucket, conn)
+  }
+
+  private hasPanelAccess(user: User, panel: ChartPanel): boolean {
+    const { bucket, config } = panel
+    return this.hasBucketAccess(user, bucket, config.conn) &&
+      (!config.annotations || this.hasBucketAccess(user, config.annotations.bucket, config.conn))
+  }
+
+  // Example: "/get@bot ..." or callback data "actions_run/<id>" (= "/actions")
+  private getUpdateCommand(ctx: Context): Command | null {
+    const commands: string[] = Object.values(Command)
+    if (ctx.message && 'text' in ctx.message && ctx.message.text.startsWith('/')) {
+      const command = ctx.message.text.split(/[\s@]/)[0].slice(1)
+      return commands.includes(command) ? command as Command : null
+    }
+
+    if (ctx.callbackQuery && 'data' in ctx.callbackQuery) {
+      const method = ctx.callbackQuery.data.split('/')[0]
+      const command = commands.includes(method) ? method : method.slice(0, method.lastIndexOf('_'))
+      return commands.includes(command) ? command as Command : null
+    }
+
+    return null
+  }
+
   // Source: https://stackoverflow.com/a/16261693
   private getCommandParams(text?: string): string[] {
     return text ? text.match(/(?:[^\s"]+|"[^"]*")+/g)?.slice(1) ?? [] : []
   }
 
-  // Source: https://stackoverflow.com/a/19156525
+  // Example: "temperature,humidity" or "cpu:usage_user,system:load1"
+  private parseFields(measurement: string, fieldStr: string): InfluxFieldSelector[] {
+    return InfluxFieldSelectorValidator.array().parse(fieldStr.split(',').map(f => {
+      const [fieldMeasurement, field] = f.includes(':') ? f.split(':') : [measurement, f]
+      return { measurement: fieldMeasurement, field }
+    }))
+  }
+
+  // Params of "/chart": <type> <bucket> <measurement> <field> <where> [<config>]
+  private parseChartPanel(params: string[], user: User, conn?: string): ChartPanel {
+    const [typeStr, rawBucket, rawMeasurement, rawFieldStr, whereStr, configStr] = params
+    const [bucket, measurement, fieldStr] = [rawBucket, rawMeasurement, rawFieldStr].map(stripQuotes) // Quoted by the wizard
+    const type = ChartTypeValidator.parse(typeStr)
+    return {
+      type,
+      bucket,
+      fields: this.parseFields(measurement, fieldStr),
+      where: this.parseWhere(whereStr),
+      config: InfluxAggregateParamsValidator
+        .and(ChartConfigValidator)
+        .refine(c => !c.compare || isTimeChart(type), { message: `Compare is not supported by ${type} charts`, path: ['compare'] })
+        .refine(c => !c.annotations || isTimeChart(type), { message: `Annotations are not supported by ${type} charts`, path: ['annotations'] })
+        .refine(c => !c.annotations || isFluxConnection(c.conn), { message: 'Annotations require a Flux connection', path: ['annotations'] })
+        .parse(this.parseConfig(configStr, user, conn))
+    }
+  }
+
+  private getDefaultConnection(user: User): string {
+    return InfluxConnectionParamsValidator.parse(this.parseConfig('', user)).conn ?? INFLUX_DEFAULT_CONNECTION
+  }
+
   private parseWhere(whereStr: string): InfluxTagFilter[] {
-    return (whereStr === '*' ? [] : whereStr.split(',')).map(f => {
-      const [tag, value] = f.split('=')
-      // TODO: Handle undefined "tag"/"value"
-      return { tag, value: stripQuotes(value) }
-    })
+    return InfluxWhereValidator.parse(whereStr)
   }
 
-  private parseConfig(str: string): Record<string, string | string[]> {
+  // Default connection of the user is used unless the config has "conn"
+  private parseConfig(
+    str: string,
+    user: User,
+    conn = this.actionConnections.get(user) ?? storage.getConnection(user.id)
+  ): Record<string, string | string[]> {
     const config: Record<string, string | string[]> = {}
+    if (conn && getInfluxConnectionNames().includes(conn)) {
+      config.conn = conn
+    }
+
     if (!str) {
       return config
     }
@@ -545,6 +1900,38 @@ export class InfluxTelegramBot {
     return config
   }
 
+  // Example: "/chart line my-bucket my-measurement my-field host=a,region=b start=-2d"
+  private toWizardCommand(wizard: PendingWizard): string {
+    const { command, type, bucket, measurement, field, where, configStr } = wizard
+    const whereStr = where.length > 0 ? where.map(([tag, value]) => this.toWizardTagFilter(tag, value)).join(',') : '*'
+    const names = [bucket, measurement, field].map(n => n && /\s/.test(n) ? `"${n}"` : n)
+    const params = [type, ...names, field ? whereStr : undefined, field ? configStr : undefined]
+    return [command ? `/${command}` : undefined, ...params].filter(p => !!p).join(' ')
+  }
+
+  // Values with separators, quotes or whitespace are matched exactly with a regex, example: 'room=~/^living\x{20}room$/'
+  private toWizardTagFilter(tag: string, value: string): string {
+    if (!/[\s",|]/.test(value) && !value.startsWith('~')) {
+      return `${tag}=${value}`
+    }
+
+    const pattern = value
+      .replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+      .replace(/[\s"]/g, c => `\\x{${c.charCodeAt(0).toString(16)}}`)
+
+    return `${tag}=~/^${pattern}$/`
+  }
+
+  private createWizardText(wizard: PendingWizard): string {
+    const header = wizard.step === 'tag-value'
+      ? V['telegram.wizard-tag-value'](wizard.tag as string)
+      : V[`telegram.wizard-${wizard.step}`]
+
+    const pages = Math.ceil(wizard.options.length / TG_KEYBOARD_MAX_OPTIONS)
+    const page = pages > 1 ? `\n${V['telegram.wizard-page']((wizard.page ?? 0) + 1, pages)}` : ''
+    return createMdBlock(`${createMdHeader(header)}\n${escapeMdBlock(this.toWizardCommand(wizard))}${page}`)
+  }
+
   private createUsageText(usage: string): string {
     return createMdBlock(`${createMdHeader(`${ERROR_PREFIX} ${V['telegram.usage']}`)}\n${usage}`)
   }
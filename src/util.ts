@@ -1,8 +1,10 @@
 import { InfluxRow } from './influx/model'
-import { Notification } from './storage/model'
+import { NotificationOperator } from './storage/model'
 
 export type InfluxTableMap = Map<number, InfluxRow[]>
 
+export const TZ = process.env.TZ || Intl.DateTimeFormat().resolvedOptions().timeZone
+
 const IGNORED_INFLUX_PROPERTIES: Set<keyof InfluxRow> = new Set(['result', 'table'])
 
 export const divideToInfluxTables = (rows: InfluxRow[]): InfluxTableMap => {
@@ -45,8 +47,11 @@ export const toArrayOrUndefined = <T>(value: T | T[] | undefined): T[] | undefin
 
 export const stripQuotes = (str: string): string => str.replace(/^"(.*)"$/, '$1')
 
-export const getValueOperatorFunc = (notification: Notification): (row: InfluxRow) => boolean => {
-  const { operator, value } = notification
+export const getValueOperatorFunc = (condition: {
+  readonly operator: NotificationOperator
+  readonly value: number
+}): (row: InfluxRow) => boolean => {
+  const { operator, value } = condition
   switch (operator) {
     case '<':
       return row => row._value < value
@@ -1,6 +1,9 @@
 export const VOCABULARY = {
   // Responses
   'telegram.unauthorized-user': 'Unauthorized user!',
+  'telegram.unauthorized-command': 'No permission for the command!',
+  'telegram.unauthorized-bucket': 'No permission for the bucket!',
+  'telegram.unauthorized-subscription': 'Only admins can subscribe group chats!',
   'telegram.usage': 'Usage',
   'telegram.invalid-config': 'Invalid configuration',
   'telegram.unknown-error': 'Sorry, an unknown error occurred :(',
@@ -15,11 +18,60 @@ export const VOCABULARY = {
   'telegram.action-removed': 'Action removed',
   'telegram.action-running': 'Running',
   'telegram.action': (a: string) => `Action (${a})`,
+  'telegram.action-not-found': 'Action not found.',
   'telegram.notification': (n: string) => `Notification (${n})`,
   'telegram.notifications-get': 'Notifications (Get)',
   'telegram.notifications-remove': 'Notifications (Remove)',
   'telegram.notification-added': 'Notification added',
   'telegram.notification-removed': 'Notification removed',
+  'telegram.notifications-subscribe': 'Notifications (Subscribe)',
+  'telegram.notifications-unsubscribe': 'Notifications (Unsubscribe)',
+  'telegram.notification-subscribed': 'Notification subscribed',
+  'telegram.notification-unsubscribed': 'Notification unsubscribed',
+  'telegram.notification-firing': (n: string) => `Firing (${n})`,
+  'telegram.notification-repeat': (n: string) => `Still firing (${n})`,
+  'telegram.notification-resolved': (n: string) => `Resolved (${n})`,
+  'telegram.notification-last-reported': (d: string) => `Last reported ${d} ago`,
+  'telegram.schedule': (s: string) => `Schedule (${s})`,
+  'telegram.schedules-get': 'Schedules (Get)',
+  'telegram.schedules-remove': 'Schedules (Remove)',
+  'telegram.schedule-added': 'Schedule added',
+  'telegram.schedule-removed': 'Schedule removed',
+  'telegram.dashboard': (d: string) => `Dashboard (${d})`,
+  'telegram.dashboards-run': 'Dashboards (Show)',
+  'telegram.dashboards-get': 'Dashboards (Get)',
+  'telegram.dashboards-remove': 'Dashboards (Remove)',
+  'telegram.dashboard-panel-added': 'Dashboard panel added',
+  'telegram.dashboard-removed': 'Dashboard removed',
+  'telegram.dashboard-not-found': 'Dashboard not found.',
+  'telegram.dashboard-panels-failed': 'Failed panels',
+  'telegram.write-confirm': 'Write point?',
+  'telegram.write-confirm-yes': 'Write',
+  'telegram.write-confirm-no': 'Cancel',
+  'telegram.write-done': 'Point written',
+  'telegram.write-cancelled': 'Write cancelled',
+  'telegram.connection-set': 'Default connection set',
+  'telegram.connection-selected': 'selected',
+  'telegram.users': 'Users',
+  'telegram.user-granted': 'Access granted',
+  'telegram.user-revoked': 'Access revoked',
+  'telegram.user-not-found': 'User has no access.',
+  'telegram.wizard-command': 'Select command',
+  'telegram.wizard-type': 'Select chart type',
+  'telegram.wizard-bucket': 'Select bucket',
+  'telegram.wizard-measurement': 'Select measurement',
+  'telegram.wizard-field': 'Select field',
+  'telegram.wizard-tag': 'Filter by tag',
+  'telegram.wizard-tag-value': (t: string) => `Select value (${t})`,
+  'telegram.wizard-done': 'Command ready',
+  'telegram.wizard-tags-done': 'Done',
+  'telegram.wizard-run': 'Run',
+  'telegram.wizard-save': 'Save as action',
+  'telegram.wizard-cancel': 'Cancel',
+  'telegram.wizard-more': 'More',
+  'telegram.wizard-page': (p: number, n: number) => `Page ${p}/${n}`,
+  'telegram.wizard-cancelled': 'Wizard cancelled',
+  'telegram.wizard-not-found': (v: string) => `Nothing to select for "${v}".`,
 
   // Commands
   'telegram.command.start': 'Start a new conversation.',
@@ -30,17 +82,40 @@ export const VOCABULARY = {
   'telegram.command.tags': 'List InfluxDB tags.',
   'telegram.command.tag': 'List InfluxDB tag values.',
   'telegram.command.get': 'Get latest values from InfluxDB.',
+  'telegram.command.stats': 'Get statistics from InfluxDB.',
   'telegram.command.chart': 'Create chart visualization.',
+  'telegram.command.export': 'Export values as a file.',
+  'telegram.command.flux': 'Run raw Flux query.',
+  'telegram.command.write': 'Write point to InfluxDB.',
   'telegram.command.actions': 'Run saved action.',
   'telegram.command.actions_get': 'View saved action.',
   'telegram.command.actions_add': 'Save new action.',
   'telegram.command.actions_remove': 'Remove saved action.',
   'telegram.command.notifications': 'View current notification.',
   'telegram.command.notifications_add': 'Add new notification.',
+  'telegram.command.notifications_deadman': 'Add new no-data notification.',
+  'telegram.command.notifications_compound': 'Add new notification with multiple conditions.',
   'telegram.command.notifications_remove': 'Remove notification.',
+  'telegram.command.notifications_subscribe': 'Receive notification in this chat.',
+  'telegram.command.notifications_unsubscribe': 'Stop receiving notification in this chat.',
+  'telegram.command.schedules': 'View scheduled actions.',
+  'telegram.command.schedules_add': 'Schedule saved action.',
+  'telegram.command.schedules_remove': 'Remove scheduled action.',
+  'telegram.command.dashboard': 'Show saved dashboard by name.',
+  'telegram.command.dashboards': 'Show saved dashboard.',
+  'telegram.command.dashboards_add': 'Add chart panel to dashboard.',
+  'telegram.command.dashboards_get': 'View saved dashboard.',
+  'telegram.command.dashboards_remove': 'Remove saved dashboard.',
+  'telegram.command.connections': 'List or select InfluxDB connections.',
+  'telegram.command.wizard': 'Build command step by step.',
+  'telegram.command.users': 'List users with access.',
+  'telegram.command.users_grant': 'Grant role to user.',
+  'telegram.command.users_revoke': 'Revoke access from user.',
 
   // Influx terms
+  'influx.connections': 'Connections',
   'influx.buckets': 'Buckets',
+  'influx.bucket-not-found': 'Bucket not found.',
   'influx.measurements': 'Measurements',
   'influx.measurements-not-found': 'No measurements found.',
   'influx.fields': 'Fields',
@@ -50,5 +125,9 @@ export const VOCABULARY = {
   'influx.tag-values': (t: string) => `Tag (\`${t}\`)`,
   'influx.tags-values-not-found': 'No tag values found.',
   'influx.values': 'Values',
-  'influx.values-not-found': 'No values found.'
+  'influx.values-not-found': 'No values found.',
+  'influx.stats': 'Statistics',
+  'influx.values-truncated': (n: number) => `Values (first ${n})`,
+  'influx.query-error': 'Query failed',
+  'influx.flux-only': (c: string) => `Not supported by the connection "${c}", Flux connection required.`
 } as const